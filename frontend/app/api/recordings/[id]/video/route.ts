@@ -0,0 +1,50 @@
+import { getUpload, getVideoSize, isAllowedVideoType, readVideo, uploadErrorResponse } from '@/lib/uploadStore';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/recordings/:id/video - stream an uploaded recording
+// Supports single byte ranges so the player can seek without downloading it all
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const record = await getUpload(params.id);
+    if (record?.status !== 'complete') {
+      return Response.json({ error: 'Recording not found' }, { status: 404 });
+    }
+
+    const size = await getVideoSize(params.id);
+    // Uploads from before the type was checked are served as plain bytes
+    const type = isAllowedVideoType(record.mimeType) ? record.mimeType : 'application/octet-stream';
+    const extension = type.startsWith('video/mp4') ? 'mp4' : 'webm';
+    const headers: Record<string, string> = {
+      'Content-Type': type,
+      'Content-Disposition': `inline; filename="recording.${extension}"`,
+      'X-Content-Type-Options': 'nosniff',
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'private, max-age=3600',
+    };
+
+    const match = /^bytes=(\d*)-(\d*)$/.exec(request.headers.get('range') ?? '');
+    if (match && (match[1] || match[2])) {
+      // "bytes=start-", "bytes=start-end" or the suffix form "bytes=-length"
+      const start = match[1] ? Number(match[1]) : Math.max(0, size - Number(match[2]));
+      const end = match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+      if (start >= size || start > end) {
+        return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } });
+      }
+      return new Response(await readVideo(params.id, { start, end }), {
+        status: 206,
+        headers: {
+          ...headers,
+          'Content-Range': `bytes ${start}-${end}/${size}`,
+          'Content-Length': String(end - start + 1),
+        },
+      });
+    }
+
+    return new Response(await readVideo(params.id), {
+      headers: { ...headers, 'Content-Length': String(size) },
+    });
+  } catch (err) {
+    return uploadErrorResponse(err);
+  }
+}
@@ -0,0 +1,47 @@
+import { MAX_CHUNK_SIZE, UploadError, uploadErrorResponse, writeChunk } from '@/lib/uploadStore';
+
+// Read the body, giving up as soon as it passes MAX_CHUNK_SIZE. The
+// Content-Length header is only a hint: chunked requests don't send one.
+async function readChunk(request: Request): Promise<Uint8Array> {
+  const declared = Number(request.headers.get('content-length'));
+  if (declared > MAX_CHUNK_SIZE) throw new UploadError('Chunk too large', 413);
+  if (!request.body) return new Uint8Array(0);
+
+  const reader = request.body.getReader();
+  const parts: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > MAX_CHUNK_SIZE) {
+      await reader.cancel();
+      throw new UploadError('Chunk too large', 413);
+    }
+    parts.push(value);
+  }
+
+  const data = new Uint8Array(size);
+  let offset = 0;
+  for (const part of parts) {
+    data.set(part, offset);
+    offset += part.length;
+  }
+  return data;
+}
+
+// PUT /api/uploads/:id/chunks/:index - store one chunk (raw bytes as the body)
+// Resending an index overwrites it, so retries are safe
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string; index: string } }
+) {
+  try {
+    const index = /^\d+$/.test(params.index) ? Number(params.index) : NaN;
+    const data = await readChunk(request);
+    await writeChunk(params.id, index, data);
+    return new Response(null, { status: 204 });
+  } catch (err) {
+    return uploadErrorResponse(err);
+  }
+}
@@ -0,0 +1,13 @@
+import { completeUpload, uploadErrorResponse } from '@/lib/uploadStore';
+
+// POST /api/uploads/:id/complete - assemble the chunks and publish the recording
+// Body: { chunkCount, meta: RecordingMeta }  ->  { id, url }
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const body = await request.json().catch(() => null);
+    const record = await completeUpload(params.id, Number(body?.chunkCount), body?.meta);
+    return Response.json({ id: record.id, url: `/r/${record.id}` });
+  } catch (err) {
+    return uploadErrorResponse(err);
+  }
+}
@@ -0,0 +1,18 @@
+import { getReceivedChunks, getUpload, uploadErrorResponse } from '@/lib/uploadStore';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/uploads/:id - session status, used to resume an interrupted upload
+// ->  { status, received: number[] }
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  try {
+    const record = await getUpload(params.id);
+    if (!record) return Response.json({ error: 'Upload not found' }, { status: 404 });
+    return Response.json({
+      status: record.status,
+      received: await getReceivedChunks(params.id),
+    });
+  } catch (err) {
+    return uploadErrorResponse(err);
+  }
+}
@@ -0,0 +1,14 @@
+import { createUpload, uploadErrorResponse } from '@/lib/uploadStore';
+
+// POST /api/uploads - start an upload session
+// Body: { mimeType }  ->  { id, url }
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    const mimeType = typeof body?.mimeType === 'string' ? body.mimeType : '';
+    const record = await createUpload(mimeType);
+    return Response.json({ id: record.id, url: `/r/${record.id}` }, { status: 201 });
+  } catch (err) {
+    return uploadErrorResponse(err);
+  }
+}
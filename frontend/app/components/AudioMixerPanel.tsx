@@ -0,0 +1,94 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import {
+  AUDIO_SOURCE_LABELS,
+  MAX_VOLUME,
+  AudioMixer,
+  AudioSourceId,
+  MixerSettings
+} from '@/lib/audioMixer';
+
+interface AudioMixerPanelProps {
+  mixer: AudioMixer;
+  settings: MixerSettings;
+  onChange: (settings: MixerSettings) => void;
+}
+
+// Live level meter, volume slider and mute button per audio source.
+// Meters are updated straight on the DOM each animation frame rather than
+// through state, so they don't re-render the recorder 60 times a second.
+export default function AudioMixerPanel({ mixer, settings, onChange }: AudioMixerPanelProps) {
+  const meterRefs = useRef<Partial<Record<AudioSourceId, HTMLDivElement | null>>>({});
+
+  useEffect(() => {
+    let frame = 0;
+    const update = () => {
+      for (const id of mixer.sources) {
+        const meter = meterRefs.current[id];
+        if (meter) meter.style.width = `${mixer.getLevel(id) * 100}%`;
+      }
+      frame = requestAnimationFrame(update);
+    };
+    update();
+    return () => cancelAnimationFrame(frame);
+  }, [mixer]);
+
+  if (mixer.sources.length === 0) return null;
+
+  const updateSource = (id: AudioSourceId, updates: Partial<MixerSettings[AudioSourceId]>) => {
+    onChange({ ...settings, [id]: { ...settings[id], ...updates } });
+  };
+
+  return (
+    <div className="flex flex-wrap gap-x-6 gap-y-2 px-4 py-3 bg-white border border-gray-200 rounded-xl">
+      {mixer.sources.map((id) => {
+        const { volume, muted } = settings[id];
+        return (
+          <div key={id} className="flex items-center gap-3 min-w-[16rem] flex-1">
+            <button
+              onClick={() => updateSource(id, { muted: !muted })}
+              className={`w-24 shrink-0 px-2 py-1 text-xs font-medium text-left rounded-md border transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400 ${
+                muted
+                  ? 'bg-red-50 text-red-700 border-red-200 hover:bg-red-100'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+              title={muted ? 'Unmute' : 'Mute'}
+              aria-pressed={muted}
+            >
+              {muted ? 'Muted' : AUDIO_SOURCE_LABELS[id]}
+            </button>
+
+            <div className="flex-1 space-y-1">
+              {/* Level meter */}
+              <div className="h-1.5 rounded-full bg-gray-100 overflow-hidden">
+                <div
+                  ref={(el) => {
+                    meterRefs.current[id] = el;
+                  }}
+                  className="h-full rounded-full bg-green-500 transition-[width] duration-75"
+                  style={{ width: '0%' }}
+                />
+              </div>
+              {/* Volume */}
+              <input
+                type="range"
+                min={0}
+                max={MAX_VOLUME}
+                step={0.05}
+                value={volume}
+                onChange={(e) => updateSource(id, { volume: Number(e.target.value) })}
+                className="w-full h-1 accent-gray-900"
+                aria-label={`${AUDIO_SOURCE_LABELS[id]} volume`}
+              />
+            </div>
+
+            <span className="w-10 text-right font-mono text-xs text-gray-500">
+              {Math.round(volume * 100)}%
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
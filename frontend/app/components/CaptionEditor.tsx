@@ -0,0 +1,317 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { CaptionCue, RecordingMeta } from '@/lib/indexeddb';
+import {
+  DEFAULT_CUE_LENGTH,
+  MIN_CUE_LENGTH,
+  NUDGE_STEP,
+  buildCaptionsVtt,
+  createCue,
+  cueIndexAt,
+  findCaptionProblems,
+  mergeCues,
+  nudgeCue,
+  parseCaptions,
+  sortCues,
+  splitCue
+} from '@/lib/captions';
+
+interface CaptionEditorProps {
+  recording: RecordingMeta;
+  cues: CaptionCue[]; // Saved cues
+  videoRef: React.RefObject<HTMLVideoElement>;
+  onSave: (cues: CaptionCue[]) => Promise<void>;
+  onSeek: (time: number) => void;
+}
+
+// Format seconds with tenths (e.g. "1:05.3")
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = (seconds % 60).toFixed(1).padStart(4, '0');
+  return `${minutes}:${rest}`;
+};
+
+const smallButtonClassName = 'px-1.5 text-xs font-medium text-gray-500 rounded hover:bg-gray-100 hover:text-gray-900 focus:outline-none focus:ring-2 focus:ring-gray-400';
+
+const toolbarButtonClassName = 'px-3 py-1.5 bg-white text-gray-700 text-xs font-medium rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2';
+
+// Captions for the playing recording. Cues are edited as a draft against
+// the playback position and only stored once they pass validation.
+export default function CaptionEditor({
+  recording,
+  cues,
+  videoRef,
+  onSave,
+  onSeek,
+}: CaptionEditorProps) {
+  const [draft, setDraft] = useState<CaptionCue[]>(cues);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [currentIndex, setCurrentIndex] = useState(-1);
+  // Cue whose text box should take focus once rendered (newly added)
+  const [focusId, setFocusId] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Start over from the saved cues when they change (load or save)
+  useEffect(() => {
+    setDraft(cues);
+    setIsDirty(false);
+  }, [cues]);
+
+  // Track which cue is showing
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const update = () => setCurrentIndex(cueIndexAt(draft, video.currentTime));
+    update();
+    video.addEventListener('timeupdate', update);
+    return () => video.removeEventListener('timeupdate', update);
+  }, [videoRef, draft]);
+
+  const problems = findCaptionProblems(draft);
+
+  const updateDraft = (next: CaptionCue[]) => {
+    setDraft(sortCues(next));
+    setIsDirty(true);
+    setMessage(null);
+  };
+
+  const replaceCue = (index: number, ...replacements: CaptionCue[]) => {
+    updateDraft([...draft.slice(0, index), ...replacements, ...draft.slice(index + 1)]);
+  };
+
+  const playhead = () => videoRef.current?.currentTime ?? 0;
+
+  const addCue = () => {
+    const start = playhead();
+    const end = Math.max(Math.min(start + DEFAULT_CUE_LENGTH, recording.duration), start + MIN_CUE_LENGTH);
+    const cue = createCue(start, end, '');
+    videoRef.current?.pause();
+    updateDraft([...draft, cue]);
+    setFocusId(cue.id);
+  };
+
+  const splitAtPlayhead = () => {
+    const time = playhead();
+    const index = cueIndexAt(draft, time);
+    if (index === -1) {
+      setMessage('Move the playhead inside a cue to split it');
+      return;
+    }
+    const halves = splitCue(draft[index], time);
+    if (!halves) {
+      setMessage('The playhead is too close to the edge of the cue to split it');
+      return;
+    }
+    replaceCue(index, ...halves);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseCaptions(await file.text());
+      // Replaces the draft only; Discard brings the saved cues back
+      updateDraft(imported);
+      setMessage(`Imported ${imported.length} cue${imported.length === 1 ? '' : 's'} from ${file.name}`);
+    } catch (err) {
+      console.error('Failed to import captions:', err);
+      setMessage(err instanceof Error ? err.message : 'Failed to import captions');
+    }
+  };
+
+  const downloadVtt = () => {
+    const url = URL.createObjectURL(new Blob([buildCaptionsVtt(draft)], { type: 'text/vtt' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${recording.name}.vtt`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <details className="rounded-xl border border-gray-200 bg-white">
+      <summary className="flex items-center justify-between p-4 cursor-pointer select-none text-sm font-medium text-gray-500 uppercase tracking-wide">
+        <span>Captions</span>
+        <span className="normal-case font-normal text-xs">
+          {draft.length} cue{draft.length === 1 ? '' : 's'}
+          {isDirty && ' · unsaved'}
+        </span>
+      </summary>
+
+      <div className="px-4 pb-4 space-y-3">
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={addCue} className={toolbarButtonClassName}>
+            Add cue at playhead
+          </button>
+          <button onClick={splitAtPlayhead} disabled={draft.length === 0} className={toolbarButtonClassName}>
+            Split at playhead
+          </button>
+          <button onClick={() => importInputRef.current?.click()} className={toolbarButtonClassName}>
+            Import .vtt / .srt
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".vtt,.srt,text/vtt"
+            onChange={handleImport}
+            className="hidden"
+          />
+          <button onClick={downloadVtt} disabled={draft.length === 0} className={toolbarButtonClassName}>
+            Download .vtt
+          </button>
+        </div>
+
+        {message && <p className="text-xs text-gray-500">{message}</p>}
+
+        {/* Cues, in playback order */}
+        {draft.length === 0 ? (
+          <p className="text-xs text-gray-400">
+            No captions yet. Pause where a line starts and add a cue, or import a subtitle file.
+          </p>
+        ) : (
+          <ol className="space-y-2 max-h-[28rem] overflow-y-auto">
+            {draft.map((cue, i) => {
+              const problem = problems.get(cue.id);
+              return (
+                <li
+                  key={cue.id}
+                  className={`p-2 rounded-lg border ${
+                    problem
+                      ? 'border-red-200 bg-red-50'
+                      : i === currentIndex
+                        ? 'border-gray-300 bg-gray-50'
+                        : 'border-gray-100'
+                  }`}
+                >
+                  <div className="flex flex-wrap items-center gap-x-3 gap-y-1 font-mono text-xs text-gray-600">
+                    {/* Start and end, each nudged separately */}
+                    {(['start', 'end'] as const).map((edge) => (
+                      <span key={edge} className="inline-flex items-center gap-0.5">
+                        <button
+                          onClick={() => replaceCue(i, nudgeCue(cue, edge, -NUDGE_STEP))}
+                          className={smallButtonClassName}
+                          title={`${edge === 'start' ? 'Start' : 'End'} ${NUDGE_STEP}s earlier`}
+                        >
+                          −
+                        </button>
+                        <button
+                          onClick={() => onSeek(cue[edge])}
+                          className="hover:text-gray-900 focus:outline-none focus:underline"
+                          title="Jump to this moment"
+                        >
+                          {formatTime(cue[edge])}
+                        </button>
+                        <button
+                          onClick={() => replaceCue(i, nudgeCue(cue, edge, NUDGE_STEP))}
+                          className={smallButtonClassName}
+                          title={`${edge === 'start' ? 'Start' : 'End'} ${NUDGE_STEP}s later`}
+                        >
+                          +
+                        </button>
+                        {edge === 'start' && <span className="ml-2 text-gray-400">→</span>}
+                      </span>
+                    ))}
+
+                    <span className="inline-flex items-center gap-0.5 ml-auto font-sans">
+                      <button
+                        onClick={() => replaceCue(i, nudgeCue(cue, 'both', -NUDGE_STEP))}
+                        className={smallButtonClassName}
+                        title={`Move the cue ${NUDGE_STEP}s earlier`}
+                      >
+                        ←
+                      </button>
+                      <button
+                        onClick={() => replaceCue(i, nudgeCue(cue, 'both', NUDGE_STEP))}
+                        className={smallButtonClassName}
+                        title={`Move the cue ${NUDGE_STEP}s later`}
+                      >
+                        →
+                      </button>
+                      {i + 1 < draft.length && (
+                        <button
+                          onClick={() => updateDraft([
+                            ...draft.slice(0, i),
+                            mergeCues(cue, draft[i + 1]),
+                            ...draft.slice(i + 2),
+                          ])}
+                          className={smallButtonClassName}
+                          title="Merge with the next cue"
+                        >
+                          Merge
+                        </button>
+                      )}
+                      <button
+                        onClick={() => updateDraft(draft.filter((_, j) => j !== i))}
+                        className="p-0.5 text-gray-400 hover:text-red-500 focus:outline-none focus:text-red-500"
+                        title="Remove cue"
+                      >
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </span>
+                  </div>
+
+                  <textarea
+                    value={cue.text}
+                    onChange={(e) => replaceCue(i, { ...cue, text: e.target.value })}
+                    onFocus={() => setFocusId(null)}
+                    autoFocus={cue.id === focusId}
+                    rows={Math.min(Math.max(cue.text.split('\n').length, 1), 3)}
+                    placeholder="Caption text"
+                    className="mt-1 w-full px-2 py-1 text-sm text-gray-900 bg-white border border-gray-300 rounded resize-none focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                  />
+                  {problem && <p className="mt-1 text-xs text-red-600">{problem}</p>}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+
+        {/* Save / discard the draft */}
+        {isDirty && (
+          <div className="flex items-center justify-end gap-2">
+            {problems.size > 0 && (
+              <span className="mr-auto text-xs text-red-600">
+                Fix {problems.size} cue{problems.size === 1 ? '' : 's'} before saving
+              </span>
+            )}
+            <button
+              onClick={() => {
+                setDraft(cues);
+                setIsDirty(false);
+                setMessage(null);
+              }}
+              disabled={isSaving}
+              className="px-3 py-1.5 text-xs font-medium text-gray-500 hover:text-gray-700 disabled:opacity-50 focus:outline-none focus:underline"
+            >
+              Discard
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || problems.size > 0}
+              className="px-3 py-1.5 bg-gray-900 text-white text-xs font-medium rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-gray-900 focus:ring-offset-2"
+            >
+              {isSaving ? 'Saving…' : 'Save captions'}
+            </button>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,188 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  AUDIO_BITRATE_OPTIONS,
+  CAPTURE_PRESETS,
+  COUNTDOWN_OPTIONS,
+  FRAME_RATE_OPTIONS,
+  RESOLUTION_OPTIONS,
+  VIDEO_BITRATE_OPTIONS,
+  getSupportedMimeTypes,
+  matchPreset,
+  CaptureSettings
+} from '@/lib/capture';
+import { formatDuration } from '@/lib/format';
+
+interface CaptureSettingsPanelProps {
+  settings: CaptureSettings;
+  onChange: (settings: CaptureSettings) => void;
+}
+
+const selectClassName = 'px-2 py-1 text-xs text-gray-700 bg-white border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent';
+
+const formatBitrate = (bps: number) =>
+  bps >= 1_000_000 ? `${bps / 1_000_000} Mbps` : `${bps / 1000} kbps`;
+
+// Quality presets and individual capture settings for the next recording
+export default function CaptureSettingsPanel({ settings, onChange }: CaptureSettingsPanelProps) {
+  // Only known in the browser, so filled in after mount
+  const [mimeTypes, setMimeTypes] = useState<string[]>([]);
+
+  useEffect(() => {
+    setMimeTypes(getSupportedMimeTypes());
+  }, []);
+
+  const preset = matchPreset(settings);
+
+  const update = <K extends keyof CaptureSettings>(key: K, value: CaptureSettings[K]) => {
+    onChange({ ...settings, [key]: value });
+  };
+
+  // Selects hold strings; empty means "automatic" (null)
+  const parseOption = (value: string) => (value === '' ? null : Number(value));
+
+  return (
+    <details className="rounded-xl border border-gray-200 bg-white">
+      <summary className="flex items-center justify-between p-4 cursor-pointer select-none text-sm font-medium text-gray-500 uppercase tracking-wide">
+        <span>Quality</span>
+        <span className="normal-case font-normal text-xs">
+          {preset ? preset.label : 'Custom'} · max {formatDuration(settings.maxDurationSec)}
+          {settings.countdownSec > 0 && ` · ${settings.countdownSec}s countdown`}
+        </span>
+      </summary>
+
+      <div className="px-4 pb-4 space-y-4">
+        {/* Presets */}
+        <div className="flex flex-wrap gap-2">
+          {CAPTURE_PRESETS.map((option) => (
+            <button
+              key={option.id}
+              onClick={() => onChange({ ...settings, ...option.settings })}
+              className={`px-3 py-1.5 text-left rounded-lg border transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400 ${
+                preset?.id === option.id
+                  ? 'bg-gray-900 text-white border-gray-900'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              <span className="block text-xs font-medium">{option.label}</span>
+              <span className={`block text-[11px] ${preset?.id === option.id ? 'text-gray-300' : 'text-gray-500'}`}>
+                {option.description}
+              </span>
+            </button>
+          ))}
+        </div>
+
+        {/* Individual settings */}
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 text-xs text-gray-600">
+          <label className="space-y-1">
+            <span className="block">Resolution</span>
+            <select
+              value={settings.maxHeight ?? ''}
+              onChange={(e) => update('maxHeight', parseOption(e.target.value))}
+              className={`w-full ${selectClassName}`}
+            >
+              {RESOLUTION_OPTIONS.map((height) => (
+                <option key={height ?? 'native'} value={height ?? ''}>
+                  {height === null ? 'Native' : `Up to ${height}p`}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="space-y-1">
+            <span className="block">Frame rate</span>
+            <select
+              value={settings.frameRate}
+              onChange={(e) => update('frameRate', Number(e.target.value))}
+              className={`w-full ${selectClassName}`}
+            >
+              {FRAME_RATE_OPTIONS.map((fps) => (
+                <option key={fps} value={fps}>{fps} fps</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="space-y-1">
+            <span className="block">Codec</span>
+            <select
+              value={settings.mimeType ?? ''}
+              onChange={(e) => update('mimeType', e.target.value || null)}
+              className={`w-full ${selectClassName}`}
+            >
+              <option value="">Automatic</option>
+              {mimeTypes.map((type) => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+              {/* Keep a stored choice visible even if this browser can't use it */}
+              {settings.mimeType && mimeTypes.length > 0 && !mimeTypes.includes(settings.mimeType) && (
+                <option value={settings.mimeType}>{settings.mimeType} (unsupported)</option>
+              )}
+            </select>
+          </label>
+
+          <label className="space-y-1">
+            <span className="block">Video bitrate</span>
+            <select
+              value={settings.videoBitsPerSecond ?? ''}
+              onChange={(e) => update('videoBitsPerSecond', parseOption(e.target.value))}
+              className={`w-full ${selectClassName}`}
+            >
+              {VIDEO_BITRATE_OPTIONS.map((bps) => (
+                <option key={bps ?? 'auto'} value={bps ?? ''}>
+                  {bps === null ? 'Browser default' : formatBitrate(bps)}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="space-y-1">
+            <span className="block">Audio bitrate</span>
+            <select
+              value={settings.audioBitsPerSecond ?? ''}
+              onChange={(e) => update('audioBitsPerSecond', parseOption(e.target.value))}
+              className={`w-full ${selectClassName}`}
+            >
+              {AUDIO_BITRATE_OPTIONS.map((bps) => (
+                <option key={bps ?? 'auto'} value={bps ?? ''}>
+                  {bps === null ? 'Browser default' : formatBitrate(bps)}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="space-y-1">
+            <span className="block">Max length (minutes)</span>
+            <input
+              type="number"
+              min={1}
+              max={240}
+              step={1}
+              value={Math.round(settings.maxDurationSec / 60)}
+              onChange={(e) => {
+                const minutes = parseInt(e.target.value, 10);
+                if (!isNaN(minutes)) update('maxDurationSec', Math.min(Math.max(minutes, 1), 240) * 60);
+              }}
+              className={`w-full ${selectClassName}`}
+            />
+          </label>
+
+          <label className="space-y-1">
+            <span className="block">Countdown</span>
+            <select
+              value={settings.countdownSec}
+              onChange={(e) => update('countdownSec', Number(e.target.value))}
+              className={`w-full ${selectClassName}`}
+            >
+              {COUNTDOWN_OPTIONS.map((seconds) => (
+                <option key={seconds} value={seconds}>
+                  {seconds === 0 ? 'Off' : `${seconds} seconds`}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+    </details>
+  );
+}
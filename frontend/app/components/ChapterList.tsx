@@ -0,0 +1,137 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { updateRecordingMeta, RecordingChapter, RecordingMeta } from '@/lib/indexeddb';
+import { buildChaptersVtt, chapterIndexAt } from '@/lib/chapters';
+import { formatDuration } from '@/lib/format';
+
+interface ChapterListProps {
+  recording: RecordingMeta;
+  videoRef: React.RefObject<HTMLVideoElement>;
+  onSeek: (time: number) => void;
+  onSaved: () => void;
+}
+
+// Chapters of the playing recording. The current one is highlighted;
+// titles can be renamed inline and the list downloaded as WebVTT.
+export default function ChapterList({
+  recording,
+  videoRef,
+  onSeek,
+  onSaved,
+}: ChapterListProps) {
+  const chapters = recording.chapters ?? [];
+  const [currentIndex, setCurrentIndex] = useState(-1);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  // Track which chapter is playing
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const update = () => setCurrentIndex(chapterIndexAt(recording.chapters ?? [], video.currentTime));
+    update();
+    video.addEventListener('timeupdate', update);
+    return () => video.removeEventListener('timeupdate', update);
+  }, [videoRef, recording.chapters]);
+
+  if (chapters.length === 0) return null;
+
+  const saveChapters = async (updated: RecordingChapter[]) => {
+    try {
+      await updateRecordingMeta(recording.id, { chapters: updated.length > 0 ? updated : undefined });
+      onSaved();
+    } catch (err) {
+      console.error('Failed to update chapters:', err);
+    }
+  };
+
+  const saveTitle = () => {
+    if (editingIndex === null) return;
+    const title = editingTitle.trim();
+    const index = editingIndex;
+    setEditingIndex(null);
+    if (!title || title === chapters[index].title) return;
+    saveChapters(chapters.map((chapter, i) => (i === index ? { ...chapter, title } : chapter)));
+  };
+
+  const downloadVtt = () => {
+    const vtt = buildChaptersVtt(chapters, recording.duration);
+    const url = URL.createObjectURL(new Blob([vtt], { type: 'text/vtt' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${recording.name} - chapters.vtt`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  return (
+    <div className="p-4 bg-white border border-gray-200 rounded-xl space-y-2">
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span className="font-medium uppercase tracking-wide">Chapters</span>
+        <button
+          onClick={downloadVtt}
+          className="font-medium text-gray-500 hover:text-gray-700 focus:outline-none focus:underline"
+        >
+          Download WebVTT
+        </button>
+      </div>
+
+      <ol className="space-y-0.5">
+        {chapters.map((chapter, i) => (
+          <li
+            key={`${chapter.time}-${i}`}
+            className={`group flex items-center gap-3 px-2 py-1 rounded-lg ${
+              i === currentIndex ? 'bg-gray-100' : 'hover:bg-gray-50'
+            }`}
+          >
+            <button
+              onClick={() => onSeek(chapter.time)}
+              className="shrink-0 font-mono text-xs text-gray-500 hover:text-gray-900 focus:outline-none focus:underline"
+              title="Jump to this chapter"
+            >
+              {formatDuration(Math.floor(chapter.time))}
+            </button>
+            {editingIndex === i ? (
+              <input
+                type="text"
+                value={editingTitle}
+                onChange={(e) => setEditingTitle(e.target.value)}
+                onBlur={saveTitle}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') saveTitle();
+                  else if (e.key === 'Escape') setEditingIndex(null);
+                }}
+                autoFocus
+                className="flex-1 px-2 py-0.5 text-sm text-gray-900 bg-white border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+              />
+            ) : (
+              <button
+                onClick={() => onSeek(chapter.time)}
+                onDoubleClick={() => {
+                  setEditingIndex(i);
+                  setEditingTitle(chapter.title);
+                }}
+                className={`flex-1 min-w-0 text-left text-sm truncate focus:outline-none ${
+                  i === currentIndex ? 'font-medium text-gray-900' : 'text-gray-700'
+                }`}
+                title="Double-click to rename"
+              >
+                {chapter.title}
+              </button>
+            )}
+            <button
+              onClick={() => saveChapters(chapters.filter((_, j) => j !== i))}
+              className="opacity-0 group-hover:opacity-100 p-0.5 text-gray-400 hover:text-red-500 focus:opacity-100 focus:outline-none"
+              title="Remove chapter"
+            >
+              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import { useState } from 'react';
+import { RecordingComment } from '@/lib/indexeddb';
+import { formatDuration } from '@/lib/format';
+
+interface CommentPanelProps {
+  comments: RecordingComment[];
+  videoRef: React.RefObject<HTMLVideoElement>;
+  onAdd: (time: number, text: string) => Promise<void>;
+  onDelete: (commentId: string) => void;
+  onSeek: (time: number) => void;
+}
+
+// Review notes beside the player. Focusing the input pauses playback and
+// pins the note to that moment, so it doesn't drift while you type.
+export default function CommentPanel({
+  comments,
+  videoRef,
+  onAdd,
+  onDelete,
+  onSeek,
+}: CommentPanelProps) {
+  const [text, setText] = useState('');
+  const [pinnedTime, setPinnedTime] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleFocus = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.pause();
+    if (!text) setPinnedTime(video.currentTime);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = text.trim();
+    if (!trimmed || isSaving) return;
+
+    setIsSaving(true);
+    try {
+      await onAdd(pinnedTime ?? videoRef.current?.currentTime ?? 0, trimmed);
+      setText('');
+      setPinnedTime(videoRef.current?.currentTime ?? null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col bg-white border border-gray-200 rounded-xl md:max-h-[28rem]">
+      <div className="px-4 pt-3 pb-2 text-xs font-medium text-gray-500 uppercase tracking-wide">
+        Comments ({comments.length})
+      </div>
+
+      {/* Notes, in playback order */}
+      <ul className="flex-1 overflow-y-auto px-2 space-y-1">
+        {comments.length === 0 && (
+          <li className="px-2 py-3 text-xs text-gray-400">
+            No comments yet. Pause on a moment and write a note.
+          </li>
+        )}
+        {comments.map((comment) => (
+          <li
+            key={comment.id}
+            className="group flex items-start gap-2 px-2 py-1.5 rounded-lg hover:bg-gray-50"
+          >
+            <button
+              onClick={() => onSeek(comment.time)}
+              className="shrink-0 font-mono text-xs text-amber-700 hover:underline focus:outline-none focus:underline"
+              title="Jump to this moment"
+            >
+              {formatDuration(Math.floor(comment.time))}
+            </button>
+            <span className="flex-1 min-w-0 text-sm text-gray-800 break-words whitespace-pre-line">
+              {comment.text}
+            </span>
+            <button
+              onClick={() => onDelete(comment.id)}
+              className="opacity-0 group-hover:opacity-100 p-0.5 text-gray-400 hover:text-red-500 focus:opacity-100 focus:outline-none"
+              title="Delete comment"
+            >
+              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {/* New note */}
+      <form onSubmit={handleSubmit} className="p-3 border-t border-gray-100 space-y-2">
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onFocus={handleFocus}
+          placeholder={pinnedTime !== null ? `Note at ${formatDuration(Math.floor(pinnedTime))}` : 'Add a note'}
+          className="w-full px-2 py-1.5 text-sm text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+        />
+        <button
+          type="submit"
+          disabled={!text.trim() || isSaving}
+          className="w-full px-3 py-1.5 bg-gray-900 text-white text-xs font-medium rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-gray-900 focus:ring-offset-2"
+        >
+          Comment{pinnedTime !== null ? ` at ${formatDuration(Math.floor(pinnedTime))}` : ''}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { getVideo, RecordingMeta } from '@/lib/indexeddb';
+import {
+  convertRecording,
+  Conversion,
+  ConversionCancelledError,
+  ConvertFormat,
+  DEFAULT_GIF_OPTIONS,
+  GIF_FRAME_RATES,
+  GIF_WIDTHS,
+  GifOptions,
+  isConverterCached
+} from '@/lib/convert';
+
+interface ConvertPanelProps {
+  recording: RecordingMeta;
+}
+
+const FORMAT_LABELS: Record<ConvertFormat, string> = {
+  mp4: 'MP4',
+  gif: 'GIF',
+};
+
+const selectClassName = 'px-2 py-1.5 text-xs text-gray-700 bg-white border border-gray-300 rounded-lg disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-gray-400';
+
+// Download the selected recording as MP4 or GIF, converted in the browser.
+// Trim points are applied, so the file matches what the player shows.
+export default function ConvertPanel({ recording }: ConvertPanelProps) {
+  const [gifOptions, setGifOptions] = useState<GifOptions>(DEFAULT_GIF_OPTIONS);
+  const [converting, setConverting] = useState<ConvertFormat | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [converterCached, setConverterCached] = useState(true);
+  const conversionRef = useRef<Conversion | null>(null);
+
+  // Leaving the recording abandons its conversion
+  useEffect(() => {
+    return () => conversionRef.current?.cancel();
+  }, []);
+
+  // Offline, conversion only works once the converter has been downloaded
+  const checkConverterCached = () => {
+    isConverterCached()
+      .then(setConverterCached)
+      .catch((err) => console.error('Failed to check the converter cache:', err));
+  };
+
+  useEffect(() => {
+    checkConverterCached();
+  }, []);
+
+  const download = async (format: ConvertFormat) => {
+    setError(null);
+    setProgress(0);
+    setConverting(format);
+
+    try {
+      const blob = await getVideo(recording.id);
+      if (!blob) throw new Error('Recording not found');
+
+      const conversion = convertRecording(blob, format, {
+        gif: gifOptions,
+        start: recording.trimStart ?? 0,
+        end: recording.trimEnd ?? recording.duration,
+        onProgress: setProgress,
+      });
+      conversionRef.current = conversion;
+      const converted = await conversion.result;
+
+      const url = URL.createObjectURL(converted);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${recording.name}.${format}`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (err) {
+      if (!(err instanceof ConversionCancelledError)) {
+        console.error(`Failed to convert recording to ${FORMAT_LABELS[format]}:`, err);
+        setError(`Failed to create ${FORMAT_LABELS[format]}`);
+      }
+    } finally {
+      conversionRef.current = null;
+      setConverting(null);
+      checkConverterCached();
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-4 bg-white border border-gray-200 rounded-xl">
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span className="font-medium uppercase tracking-wide">Download as</span>
+        <span>Converted on this device</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => download('mp4')}
+          disabled={converting !== null}
+          className="px-3 py-1.5 bg-white text-gray-700 text-xs font-medium rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2"
+        >
+          Download MP4
+        </button>
+
+        <span className="w-px h-5 mx-1 bg-gray-200" />
+
+        <button
+          onClick={() => download('gif')}
+          disabled={converting !== null}
+          className="px-3 py-1.5 bg-white text-gray-700 text-xs font-medium rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2"
+        >
+          Download GIF
+        </button>
+        <select
+          value={gifOptions.frameRate}
+          onChange={(e) => setGifOptions({ ...gifOptions, frameRate: Number(e.target.value) })}
+          disabled={converting !== null}
+          aria-label="GIF frame rate"
+          className={selectClassName}
+        >
+          {GIF_FRAME_RATES.map((rate) => (
+            <option key={rate} value={rate}>{rate} fps</option>
+          ))}
+        </select>
+        <select
+          value={gifOptions.width}
+          onChange={(e) => setGifOptions({ ...gifOptions, width: Number(e.target.value) })}
+          disabled={converting !== null}
+          aria-label="GIF width"
+          className={selectClassName}
+        >
+          {GIF_WIDTHS.map((width) => (
+            <option key={width} value={width}>{width}px wide</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Progress of the running conversion */}
+      {converting && (
+        <div className="flex items-center gap-3">
+          <div className="flex-1 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-gray-900 transition-[width]"
+              style={{ width: `${Math.round(progress * 100)}%` }}
+            />
+          </div>
+          <span className="w-32 text-xs text-gray-500">
+            {progress > 0 ? `${FORMAT_LABELS[converting]} ${Math.round(progress * 100)}%` : 'Preparing encoder…'}
+          </span>
+          <button
+            onClick={() => conversionRef.current?.cancel()}
+            className="text-xs font-medium text-gray-500 hover:text-gray-700 focus:outline-none focus:underline"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {!converterCached && (
+        <p className="text-xs text-gray-500">
+          The converter (about 30 MB) downloads the first time it&apos;s used. After that, MP4 and GIF
+          downloads work offline too.
+        </p>
+      )}
+
+      {error && (
+        <div className="text-xs text-red-600">{error}</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import { LibraryFilter, SortDirection, SortKey } from '@/lib/library';
+
+interface LibraryToolbarProps {
+  filter: LibraryFilter;
+  onFilterChange: (filter: LibraryFilter) => void;
+  sortKey: SortKey;
+  sortDirection: SortDirection;
+  onSortChange: (key: SortKey, direction: SortDirection) => void;
+  tags: string[];
+  folders: string[];
+}
+
+const SORT_OPTIONS: { value: SortKey; label: string }[] = [
+  { value: 'date', label: 'Date' },
+  { value: 'duration', label: 'Duration' },
+  { value: 'size', label: 'Size' },
+  { value: 'name', label: 'Name' },
+];
+
+const selectClassName = 'px-2 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent';
+
+// Search box, tag/folder filters and sort controls above the recordings list
+export default function LibraryToolbar({
+  filter,
+  onFilterChange,
+  sortKey,
+  sortDirection,
+  onSortChange,
+  tags,
+  folders,
+}: LibraryToolbarProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {/* Search */}
+      <div className="relative flex-1 min-w-[12rem]">
+        <svg className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+        </svg>
+        <input
+          type="search"
+          value={filter.query}
+          onChange={(e) => onFilterChange({ ...filter, query: e.target.value })}
+          placeholder="Search name, tags, description"
+          className="w-full pl-8 pr-3 py-1.5 text-sm text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+        />
+      </div>
+
+      {/* Tag filter */}
+      {tags.length > 0 && (
+        <select
+          value={filter.tag ?? ''}
+          onChange={(e) => onFilterChange({ ...filter, tag: e.target.value || null })}
+          className={selectClassName}
+          aria-label="Filter by tag"
+        >
+          <option value="">All tags</option>
+          {tags.map(tag => (
+            <option key={tag} value={tag}>#{tag}</option>
+          ))}
+        </select>
+      )}
+
+      {/* Folder filter */}
+      {folders.length > 0 && (
+        <select
+          value={filter.folder ?? ''}
+          onChange={(e) => onFilterChange({ ...filter, folder: e.target.value || null })}
+          className={selectClassName}
+          aria-label="Filter by folder"
+        >
+          <option value="">All folders</option>
+          {folders.map(folder => (
+            <option key={folder} value={folder}>{folder}</option>
+          ))}
+        </select>
+      )}
+
+      {/* Sort */}
+      <select
+        value={sortKey}
+        onChange={(e) => onSortChange(e.target.value as SortKey, sortDirection)}
+        className={selectClassName}
+        aria-label="Sort by"
+      >
+        {SORT_OPTIONS.map(({ value, label }) => (
+          <option key={value} value={value}>{label}</option>
+        ))}
+      </select>
+      <button
+        onClick={() => onSortChange(sortKey, sortDirection === 'asc' ? 'desc' : 'asc')}
+        className="p-2 text-gray-600 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-400"
+        title={sortDirection === 'asc' ? 'Ascending' : 'Descending'}
+      >
+        <svg className={`w-4 h-4 transition-transform ${sortDirection === 'asc' ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 14l-7 7m0 0l-7-7m7 7V3" />
+        </svg>
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import {
+  ANNOTATION_COLORS,
+  DEFAULT_FADE_AFTER,
+  FADE_OPTIONS,
+  AnnotationLayer,
+  AnnotationPoint,
+  AnnotationTool
+} from '@/lib/annotations';
+
+interface LiveAnnotatorProps {
+  stream: MediaStream;    // Composited stream being recorded
+  layer: AnnotationLayer; // Layer the compositor draws every frame
+}
+
+const TOOLS: { value: AnnotationTool; label: string; icon: string }[] = [
+  { value: 'pen', label: 'Pen', icon: 'M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z' },
+  { value: 'arrow', label: 'Arrow', icon: 'M5 19L19 5m0 0h-9m9 0v9' },
+  { value: 'rectangle', label: 'Rectangle', icon: 'M4 6h16v12H4z' },
+  { value: 'highlighter', label: 'Highlighter', icon: 'M9 11l-6 6v3h9l3-3M22 12l-4.6 4.6a2 2 0 01-2.8 0l-5.2-5.2a2 2 0 010-2.8L14 4' },
+  { value: 'spotlight', label: 'Spotlight', icon: 'M15 12a3 3 0 11-6 0 3 3 0 016 0zM12 3v2m0 14v2m9-9h-2M5 12H3' },
+];
+
+const toolButtonClassName = (active: boolean) =>
+  `p-2 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400 ${
+    active ? 'bg-gray-900 text-white' : 'text-gray-600 hover:bg-gray-100'
+  }`;
+
+// Live preview of the recording with a drawing surface on top, plus a
+// floating toolbar. Marks go into the annotation layer, so they're drawn
+// into the recorded frames rather than just over the preview.
+export default function LiveAnnotator({ stream, layer }: LiveAnnotatorProps) {
+  const [tool, setTool] = useState<AnnotationTool>('pen');
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+  const [fadeAfter, setFadeAfter] = useState<number | null>(DEFAULT_FADE_AFTER);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const drawingRef = useRef(false);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream]);
+
+  useEffect(() => {
+    layer.setFadeAfter(fadeAfter);
+  }, [layer, fadeAfter]);
+
+  // Ctrl/Cmd+Z undoes the last mark
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() !== 'z' || !(e.ctrlKey || e.metaKey) || e.shiftKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, [contenteditable="true"]')) return;
+      e.preventDefault();
+      layer.undo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [layer]);
+
+  // Map a pointer position to frame coordinates, allowing for the
+  // letterboxing object-contain adds around the video
+  const pointFromEvent = (e: React.PointerEvent): AnnotationPoint => {
+    const video = videoRef.current;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const frameAspect = video && video.videoHeight > 0 ? video.videoWidth / video.videoHeight : 16 / 9;
+    let width = rect.width;
+    let height = rect.width / frameAspect;
+    if (height > rect.height) {
+      height = rect.height;
+      width = rect.height * frameAspect;
+    }
+    const left = rect.left + (rect.width - width) / 2;
+    const top = rect.top + (rect.height - height) / 2;
+    return {
+      x: Math.min(Math.max((e.clientX - left) / width, 0), 1),
+      y: Math.min(Math.max((e.clientY - top) / height, 0), 1),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    layer.begin(tool, color, pointFromEvent(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (drawingRef.current) layer.extend(pointFromEvent(e));
+  };
+
+  const handlePointerUp = () => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    layer.end();
+  };
+
+  return (
+    <>
+      <div className="relative w-full h-full">
+        <video
+          ref={videoRef}
+          autoPlay
+          muted
+          playsInline
+          className="w-full h-full object-contain"
+        />
+        <div
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className="absolute inset-0 cursor-crosshair touch-none select-none"
+        />
+      </div>
+
+      {/* Floating toolbar */}
+      <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-1 px-2 py-1.5 bg-white border border-gray-200 rounded-xl shadow-lg">
+        {TOOLS.map(({ value, label, icon }) => (
+          <button
+            key={value}
+            onClick={() => setTool(value)}
+            className={toolButtonClassName(tool === value)}
+            title={label}
+            aria-pressed={tool === value}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={icon} />
+            </svg>
+          </button>
+        ))}
+
+        <span className="w-px h-6 mx-1 bg-gray-200" />
+
+        {ANNOTATION_COLORS.map((swatch) => (
+          <button
+            key={swatch}
+            onClick={() => setColor(swatch)}
+            className={`w-5 h-5 rounded-full border focus:outline-none focus:ring-2 focus:ring-gray-400 ${
+              color === swatch ? 'ring-2 ring-gray-900 ring-offset-1 border-transparent' : 'border-gray-300'
+            }`}
+            style={{ backgroundColor: swatch }}
+            title={swatch}
+            aria-pressed={color === swatch}
+          />
+        ))}
+
+        <span className="w-px h-6 mx-1 bg-gray-200" />
+
+        <select
+          value={fadeAfter ?? ''}
+          onChange={(e) => setFadeAfter(e.target.value === '' ? null : Number(e.target.value))}
+          className="px-1.5 py-1 text-xs text-gray-700 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-gray-400"
+          aria-label="Fade marks after"
+        >
+          {FADE_OPTIONS.map((seconds) => (
+            <option key={seconds ?? 'never'} value={seconds ?? ''}>
+              {seconds === null ? 'Keep marks' : `Fade after ${seconds}s`}
+            </option>
+          ))}
+        </select>
+
+        <button
+          onClick={() => layer.undo()}
+          className={toolButtonClassName(false)}
+          title="Undo (Ctrl+Z)"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+          </svg>
+        </button>
+        <button
+          onClick={() => layer.clear()}
+          className="px-2 py-1.5 text-xs font-medium text-gray-600 rounded-lg hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-gray-400"
+        >
+          Clear
+        </button>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,169 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  generateRecordingId,
+  getVideo,
+  saveVideo,
+  RecordingChapter,
+  RecordingMeta
+} from '@/lib/indexeddb';
+import { mergeVideos, MergeClip } from '@/lib/merge';
+import { formatDuration } from '@/lib/format';
+
+interface MergePanelProps {
+  recordings: RecordingMeta[]; // Ticked recordings, in their initial order
+  onMerged: (meta: RecordingMeta, sourceIds: string[]) => void;
+  onClose: () => void;
+}
+
+const buttonClassName = 'px-3 py-1.5 bg-white text-gray-700 text-xs font-medium rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2';
+const iconButtonClassName = 'p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30 disabled:hover:text-gray-400 focus:outline-none focus:text-gray-700';
+
+// Section of a recording that plays, honouring its trim points
+const sectionOf = (rec: RecordingMeta) => ({
+  start: rec.trimStart ?? 0,
+  end: rec.trimEnd ?? rec.duration,
+});
+
+// Join ticked recordings, in an order the user picks, into a new one. The
+// sources are kept; each becomes a chapter of the result.
+export default function MergePanel({ recordings, onMerged, onClose }: MergePanelProps) {
+  const [order, setOrder] = useState(recordings);
+  const [name, setName] = useState(`${recordings[0]?.name ?? 'Recording'} (merged)`);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isMerging = progress !== null;
+  const totalDuration = order.reduce((sum, rec) => {
+    const { start, end } = sectionOf(rec);
+    return sum + Math.max(end - start, 0);
+  }, 0);
+
+  const move = (index: number, offset: -1 | 1) => {
+    setOrder(current => {
+      const next = [...current];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const remove = (id: string) => setOrder(current => current.filter(rec => rec.id !== id));
+
+  const handleMerge = async () => {
+    setProgress(0);
+    setError(null);
+    try {
+      const clips: MergeClip[] = [];
+      const chapters: RecordingChapter[] = [];
+      let offset = 0;
+      for (const rec of order) {
+        const blob = await getVideo(rec.id);
+        if (!blob) throw new Error(`"${rec.name}" has no video`);
+        const { start, end } = sectionOf(rec);
+        clips.push({ blob, start, end });
+        chapters.push({ time: offset, title: rec.name });
+        offset += Math.max(end - start, 0);
+      }
+
+      const merged = await mergeVideos(clips, setProgress);
+      const meta = await saveVideo(generateRecordingId(), merged, offset, name.trim() || undefined, { chapters });
+      onMerged(meta, order.map(rec => rec.id));
+    } catch (err) {
+      console.error('Failed to merge recordings:', err);
+      setError(err instanceof Error ? err.message : 'Failed to merge recordings');
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="p-4 space-y-3 bg-white border border-gray-200 rounded-xl">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-500 uppercase tracking-wide">Merge recordings</span>
+        <span className="text-xs text-gray-500">{formatDuration(Math.round(totalDuration))} in total</span>
+      </div>
+
+      {/* Clips in merge order */}
+      <ol className="space-y-1">
+        {order.map((rec, i) => (
+          <li key={rec.id} className="flex items-center gap-2 px-2 py-1.5 rounded-lg bg-gray-50 text-sm">
+            <span className="w-5 text-xs text-gray-400">{i + 1}.</span>
+            <span className="flex-1 min-w-0 truncate text-gray-900">{rec.name}</span>
+            <span className="font-mono text-xs text-gray-500">
+              {formatDuration(Math.round(sectionOf(rec).end - sectionOf(rec).start))}
+            </span>
+            <button
+              onClick={() => move(i, -1)}
+              disabled={isMerging || i === 0}
+              className={iconButtonClassName}
+              title="Move up"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+              </svg>
+            </button>
+            <button
+              onClick={() => move(i, 1)}
+              disabled={isMerging || i === order.length - 1}
+              className={iconButtonClassName}
+              title="Move down"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+              </svg>
+            </button>
+            <button
+              onClick={() => remove(rec.id)}
+              disabled={isMerging || order.length <= 2}
+              className={iconButtonClassName}
+              title="Leave out of the merge"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      <label className="block space-y-1 text-xs text-gray-600">
+        <span className="block">Name</span>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          disabled={isMerging}
+          className="w-full px-2 py-1.5 text-sm text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+        />
+      </label>
+
+      <p className="text-xs text-gray-500">
+        Each recording is played through once, so merging takes as long as the result. Trimmed
+        sections are left out, and the originals are kept.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={handleMerge}
+          disabled={isMerging || order.length < 2}
+          className="px-3 py-1.5 bg-gray-900 text-white text-xs font-medium rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-gray-900 focus:ring-offset-2"
+        >
+          {isMerging ? `Merging… ${Math.round(progress * 100)}%` : `Merge ${order.length} recordings`}
+        </button>
+        <button onClick={onClose} disabled={isMerging} className={buttonClassName}>
+          Cancel
+        </button>
+      </div>
+
+      {isMerging && (
+        <div className="h-1 bg-gray-200 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-gray-900 transition-[width]"
+            style={{ width: `${Math.round(progress * 100)}%` }}
+          />
+        </div>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
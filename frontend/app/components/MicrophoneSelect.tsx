@@ -0,0 +1,49 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { listMicrophones } from '@/lib/audioMixer';
+
+interface MicrophoneSelectProps {
+  deviceId: string | null; // null = system default
+  onChange: (deviceId: string | null) => void;
+}
+
+// Input device picker for the microphone. The list refreshes when devices
+// are plugged in or out, and after permission is granted (labels appear).
+export default function MicrophoneSelect({ deviceId, onChange }: MicrophoneSelectProps) {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  useEffect(() => {
+    const refresh = () => {
+      listMicrophones()
+        .then(setDevices)
+        .catch((err) => console.error('Failed to list microphones:', err));
+    };
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, []);
+
+  // The default device is covered by the "Default microphone" option
+  const choices = devices.filter(device => device.deviceId && device.deviceId !== 'default');
+
+  return (
+    <select
+      value={deviceId ?? ''}
+      onChange={(e) => onChange(e.target.value || null)}
+      className="max-w-[14rem] px-2 py-2.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2"
+      aria-label="Microphone"
+    >
+      <option value="">Default microphone</option>
+      {choices.map((device, i) => (
+        <option key={device.deviceId} value={device.deviceId}>
+          {device.label || `Microphone ${i + 1}`}
+        </option>
+      ))}
+      {/* Keep a saved choice visible while its device is unplugged */}
+      {deviceId && devices.length > 0 && !choices.some(device => device.deviceId === deviceId) && (
+        <option value={deviceId}>Unavailable microphone</option>
+      )}
+    </select>
+  );
+}
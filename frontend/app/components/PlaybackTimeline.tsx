@@ -0,0 +1,110 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { RecordingChapter, RecordingComment } from '@/lib/indexeddb';
+import { formatDuration } from '@/lib/format';
+import { isLoopActive, LoopRegion } from '@/lib/playback';
+
+interface PlaybackTimelineProps {
+  comments: RecordingComment[];
+  chapters: RecordingChapter[];
+  duration: number;
+  loop: LoopRegion;
+  videoRef: React.RefObject<HTMLVideoElement>;
+  onSeek: (time: number) => void;
+}
+
+// Scrub bar under the player with a tick per chapter, a marker per comment
+// and the A-B loop shaded. Clicking the bar seeks there; clicking a tick or
+// marker jumps to it.
+export default function PlaybackTimeline({
+  comments,
+  chapters,
+  duration,
+  loop,
+  videoRef,
+  onSeek,
+}: PlaybackTimelineProps) {
+  const [currentTime, setCurrentTime] = useState(0);
+  const trackRef = useRef<HTMLDivElement>(null);
+
+  // Follow the player's position
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const update = () => setCurrentTime(video.currentTime);
+    update();
+    video.addEventListener('timeupdate', update);
+    video.addEventListener('seeked', update);
+    return () => {
+      video.removeEventListener('timeupdate', update);
+      video.removeEventListener('seeked', update);
+    };
+  }, [videoRef]);
+
+  if (duration <= 0) return null;
+
+  const percentFor = (time: number) => Math.min(Math.max(time / duration, 0), 1) * 100;
+
+  const handleTrackClick = (e: React.MouseEvent) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    const fraction = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1);
+    onSeek(fraction * duration);
+  };
+
+  return (
+    <div
+      ref={trackRef}
+      onClick={handleTrackClick}
+      className="relative h-6 cursor-pointer select-none"
+      aria-label="Timeline"
+    >
+      {/* Track and played portion */}
+      <div className="absolute inset-x-0 top-1/2 -translate-y-1/2 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-gray-400"
+          style={{ width: `${percentFor(currentTime)}%` }}
+        />
+      </div>
+
+      {/* Loop region */}
+      {isLoopActive(loop) && (
+        <div
+          className="absolute top-1/2 -translate-y-1/2 h-3 bg-gray-900/15 border-x-2 border-gray-900 pointer-events-none"
+          style={{ left: `${percentFor(loop.start)}%`, width: `${percentFor(loop.end) - percentFor(loop.start)}%` }}
+        />
+      )}
+
+      {/* Chapter ticks */}
+      {chapters.map((chapter, i) => (
+        <button
+          key={`${chapter.time}-${i}`}
+          onClick={(e) => {
+            e.stopPropagation();
+            onSeek(chapter.time);
+          }}
+          className="absolute inset-y-0 w-1.5 -ml-[3px] flex justify-center focus:outline-none group/tick"
+          style={{ left: `${percentFor(chapter.time)}%` }}
+          title={`${formatDuration(Math.floor(chapter.time))} - ${chapter.title}`}
+        >
+          <span className="w-0.5 h-full bg-gray-900 rounded-full group-hover/tick:bg-gray-600 group-focus/tick:bg-gray-600" />
+        </button>
+      ))}
+
+      {/* Comment markers */}
+      {comments.map((comment) => (
+        <button
+          key={comment.id}
+          onClick={(e) => {
+            e.stopPropagation();
+            onSeek(comment.time);
+          }}
+          className="absolute top-1/2 w-3 h-3 -ml-1.5 -translate-y-1/2 rounded-full bg-amber-500 border-2 border-white shadow hover:scale-125 transition-transform focus:outline-none focus:ring-2 focus:ring-amber-400"
+          style={{ left: `${percentFor(comment.time)}%` }}
+          title={`${formatDuration(Math.floor(comment.time))} - ${comment.text}`}
+        />
+      ))}
+    </div>
+  );
+}
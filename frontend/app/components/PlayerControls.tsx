@@ -0,0 +1,337 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { RecordingMeta } from '@/lib/indexeddb';
+import { formatDuration } from '@/lib/format';
+import {
+  DEFAULT_FRAME_RATE,
+  PLAYBACK_RATES,
+  SKIP_SECONDS,
+  isLoopActive,
+  stepPlaybackRate,
+  LoopRegion,
+  NO_LOOP
+} from '@/lib/playback';
+
+interface PlayerControlsProps {
+  recording: RecordingMeta;
+  videoRef: React.RefObject<HTMLVideoElement>;
+  loop: LoopRegion;
+  onLoopChange: (loop: LoopRegion) => void;
+  onCopyLink: (time: number) => void;
+  shortcutsEnabled: boolean; // Off while recording, when keys drop chapters
+}
+
+// Shown in the shortcut list, in this order
+const SHORTCUTS: [string, string][] = [
+  ['Space / K', 'Play or pause'],
+  ['← / J', `Back ${SKIP_SECONDS} seconds`],
+  ['→ / L', `Forward ${SKIP_SECONDS} seconds`],
+  [', / .', 'Previous / next frame'],
+  ['< / >', 'Slower / faster'],
+  ['A / B', 'Set loop start / end'],
+  ['X', 'Clear loop'],
+  ['C', 'Captions on / off'],
+  ['M', 'Mute'],
+  ['F', 'Full screen'],
+  ['T', 'Copy link to this moment'],
+];
+
+const buttonClassName = 'px-2 py-1 text-xs font-medium rounded-md transition-colors disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-gray-400';
+const idleClassName = 'text-gray-700 hover:bg-gray-100';
+const activeClassName = 'bg-gray-900 text-white hover:bg-gray-800';
+
+const selectClassName = 'px-2 py-1 text-xs text-gray-700 bg-white border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent';
+
+function subtitlesTrack(video: HTMLVideoElement): TextTrack | null {
+  return Array.from(video.textTracks).find(track => track.kind === 'subtitles') ?? null;
+}
+
+// Control bar replacing the browser's player controls: speed, frame
+// stepping, skipping, an A-B loop and a link to the current moment, each
+// with a keyboard shortcut
+export default function PlayerControls({
+  recording,
+  videoRef,
+  loop,
+  onLoopChange,
+  onCopyLink,
+  shortcutsEnabled,
+}: PlayerControlsProps) {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [rate, setRate] = useState(1);
+  const [isMuted, setIsMuted] = useState(false);
+  // null while the recording has no captions
+  const [captionsShown, setCaptionsShown] = useState<boolean | null>(null);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+
+  const frameDuration = 1 / (recording.capture?.frameRate ?? DEFAULT_FRAME_RATE);
+
+  // Follow the player's state
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const update = () => {
+      setIsPlaying(!video.paused);
+      setCurrentTime(video.currentTime);
+      setIsMuted(video.muted);
+    };
+    const updateCaptions = () => {
+      const track = subtitlesTrack(video);
+      setCaptionsShown(track ? track.mode === 'showing' : null);
+    };
+    // Full screen has no room for this bar, so the browser's controls stand in
+    const handleFullscreenChange = () => {
+      video.controls = document.fullscreenElement === video;
+    };
+    update();
+    updateCaptions();
+
+    const events = ['play', 'pause', 'timeupdate', 'seeked', 'volumechange', 'loadedmetadata'];
+    events.forEach((event) => video.addEventListener(event, update));
+    video.textTracks.addEventListener('change', updateCaptions);
+    video.textTracks.addEventListener('addtrack', updateCaptions);
+    video.textTracks.addEventListener('removetrack', updateCaptions);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => {
+      events.forEach((event) => video.removeEventListener(event, update));
+      video.textTracks.removeEventListener('change', updateCaptions);
+      video.textTracks.removeEventListener('addtrack', updateCaptions);
+      video.textTracks.removeEventListener('removetrack', updateCaptions);
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+    };
+  }, [videoRef, recording.id]);
+
+  // The chosen speed carries over when a new source loads
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.defaultPlaybackRate = rate;
+    video.playbackRate = rate;
+  }, [videoRef, rate, recording.id]);
+
+  // Jump back to A on reaching B. Checked every frame: timeupdate alone
+  // can overshoot B by a quarter of a second.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !isLoopActive(loop)) return;
+    const { start, end } = loop;
+    let frame = 0;
+    const check = () => {
+      if (video.currentTime >= end) video.currentTime = start;
+      frame = requestAnimationFrame(check);
+    };
+    frame = requestAnimationFrame(check);
+    return () => cancelAnimationFrame(frame);
+  }, [videoRef, loop]);
+
+  const withVideo = (action: (video: HTMLVideoElement) => void) => () => {
+    const video = videoRef.current;
+    if (video) action(video);
+  };
+
+  const togglePlay = withVideo((video) => {
+    if (video.paused) video.play().catch((err) => console.error('Failed to play recording:', err));
+    else video.pause();
+  });
+
+  const skip = (seconds: number) => withVideo((video) => {
+    const end = Number.isFinite(video.duration) ? video.duration : recording.duration;
+    video.currentTime = Math.min(Math.max(video.currentTime + seconds, 0), end);
+  });
+
+  const stepFrame = (direction: 1 | -1) => withVideo((video) => {
+    video.pause();
+    skip(direction * frameDuration)();
+  });
+
+  const changeRate = (direction: 1 | -1) => () => setRate(current => stepPlaybackRate(current, direction));
+
+  const setLoopStart = withVideo((video) => {
+    const time = video.currentTime;
+    onLoopChange({ start: time, end: loop.end !== null && loop.end > time ? loop.end : null });
+  });
+
+  const setLoopEnd = withVideo((video) => {
+    const time = video.currentTime;
+    onLoopChange({ start: loop.start !== null && loop.start < time ? loop.start : null, end: time });
+  });
+
+  const clearLoop = () => onLoopChange(NO_LOOP);
+
+  const toggleCaptions = withVideo((video) => {
+    const track = subtitlesTrack(video);
+    if (track) track.mode = track.mode === 'showing' ? 'hidden' : 'showing';
+  });
+
+  const toggleMute = withVideo((video) => {
+    video.muted = !video.muted;
+  });
+
+  const toggleFullscreen = withVideo((video) => {
+    const request = document.fullscreenElement ? document.exitFullscreen() : video.requestFullscreen();
+    request.catch((err) => console.error('Failed to toggle full screen:', err));
+  });
+
+  const copyLink = withVideo((video) => onCopyLink(video.currentTime));
+
+  // Keyboard shortcuts, unless typing in a field. Re-registered on every
+  // render so the handlers see the current loop.
+  useEffect(() => {
+    if (!shortcutsEnabled) return;
+
+    const handlers: Record<string, () => void> = {
+      ' ': togglePlay,
+      k: togglePlay,
+      arrowleft: skip(-SKIP_SECONDS),
+      j: skip(-SKIP_SECONDS),
+      arrowright: skip(SKIP_SECONDS),
+      l: skip(SKIP_SECONDS),
+      ',': stepFrame(-1),
+      '.': stepFrame(1),
+      '<': changeRate(-1),
+      '>': changeRate(1),
+      a: setLoopStart,
+      b: setLoopEnd,
+      x: clearLoop,
+      c: toggleCaptions,
+      m: toggleMute,
+      f: toggleFullscreen,
+      t: copyLink,
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Already handled, e.g. arrows moving a trim handle
+      if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+      // Space on a focused button presses that button instead
+      if (e.key === ' ' && target?.closest('button, summary, a')) return;
+      const handler = handlers[e.key.toLowerCase()];
+      if (!handler) return;
+      e.preventDefault();
+      handler();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const loopActive = isLoopActive(loop);
+  const formatTime = (time: number) => formatDuration(Math.floor(time));
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl">
+      <div className="flex flex-wrap items-center gap-1 px-2 py-1.5">
+        <button
+          onClick={togglePlay}
+          className={`${buttonClassName} ${idleClassName}`}
+          title={isPlaying ? 'Pause (Space)' : 'Play (Space)'}
+        >
+          {isPlaying ? (
+            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+              <path d="M6 5h4v14H6zM14 5h4v14h-4z" />
+            </svg>
+          ) : (
+            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+              <path d="M8 5v14l11-7z" />
+            </svg>
+          )}
+        </button>
+        <button onClick={skip(-SKIP_SECONDS)} className={`${buttonClassName} ${idleClassName}`} title={`Back ${SKIP_SECONDS} seconds (←)`}>
+          −{SKIP_SECONDS}s
+        </button>
+        <button onClick={stepFrame(-1)} className={`${buttonClassName} ${idleClassName}`} title="Previous frame (,)">
+          ‹ Frame
+        </button>
+        <button onClick={stepFrame(1)} className={`${buttonClassName} ${idleClassName}`} title="Next frame (.)">
+          Frame ›
+        </button>
+        <button onClick={skip(SKIP_SECONDS)} className={`${buttonClassName} ${idleClassName}`} title={`Forward ${SKIP_SECONDS} seconds (→)`}>
+          +{SKIP_SECONDS}s
+        </button>
+
+        <span className="px-2 font-mono text-xs text-gray-500">
+          {formatTime(currentTime)} / {formatTime(recording.duration)}
+        </span>
+
+        <select
+          value={rate}
+          onChange={(e) => setRate(Number(e.target.value))}
+          className={selectClassName}
+          title="Playback speed (< >)"
+        >
+          {PLAYBACK_RATES.map((option) => (
+            <option key={option} value={option}>{option}×</option>
+          ))}
+        </select>
+
+        {/* A-B loop */}
+        <button
+          onClick={setLoopStart}
+          className={`${buttonClassName} ${loop.start !== null ? activeClassName : idleClassName}`}
+          title="Set loop start here (A)"
+        >
+          A{loop.start !== null && ` ${formatTime(loop.start)}`}
+        </button>
+        <button
+          onClick={setLoopEnd}
+          className={`${buttonClassName} ${loop.end !== null ? activeClassName : idleClassName}`}
+          title="Set loop end here (B)"
+        >
+          B{loop.end !== null && ` ${formatTime(loop.end)}`}
+        </button>
+        {(loop.start !== null || loop.end !== null) && (
+          <button onClick={clearLoop} className={`${buttonClassName} ${idleClassName}`} title="Clear loop (X)">
+            {loopActive ? 'Stop loop' : 'Clear'}
+          </button>
+        )}
+
+        <div className="flex items-center gap-1 ml-auto">
+          {captionsShown !== null && (
+            <button
+              onClick={toggleCaptions}
+              className={`${buttonClassName} ${captionsShown ? activeClassName : idleClassName}`}
+              title="Captions (C)"
+            >
+              CC
+            </button>
+          )}
+          <button
+            onClick={toggleMute}
+            className={`${buttonClassName} ${isMuted ? activeClassName : idleClassName}`}
+            title={isMuted ? 'Unmute (M)' : 'Mute (M)'}
+          >
+            {isMuted ? 'Muted' : 'Mute'}
+          </button>
+          <button onClick={toggleFullscreen} className={`${buttonClassName} ${idleClassName}`} title="Full screen (F)">
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 9V4h5M20 9V4h-5M4 15v5h5M20 15v5h-5" />
+            </svg>
+          </button>
+          <button onClick={copyLink} className={`${buttonClassName} ${idleClassName}`} title="Copy link to this moment (T)">
+            Copy link
+          </button>
+          <button
+            onClick={() => setShowShortcuts(!showShortcuts)}
+            className={`${buttonClassName} ${showShortcuts ? activeClassName : idleClassName}`}
+            title="Keyboard shortcuts"
+          >
+            ?
+          </button>
+        </div>
+      </div>
+
+      {showShortcuts && (
+        <dl className="grid grid-cols-[auto_1fr] sm:grid-cols-[auto_1fr_auto_1fr] gap-x-3 gap-y-1 px-4 py-3 border-t border-gray-100 text-xs">
+          {SHORTCUTS.map(([keys, action]) => (
+            <div key={keys} className="contents">
+              <dt className="font-mono text-gray-900">{keys}</dt>
+              <dd className="text-gray-500">{action}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+}
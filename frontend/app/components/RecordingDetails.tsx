@@ -0,0 +1,160 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { updateRecordingMeta, RecordingMeta } from '@/lib/indexeddb';
+import { parseTags } from '@/lib/library';
+
+interface RecordingDetailsProps {
+  recording: RecordingMeta;
+  onSaved: () => void;
+  onTagClick: (tag: string) => void;
+  onFolderClick: (folder: string) => void;
+}
+
+const inputClassName = 'w-full px-2 py-1 text-xs text-gray-900 bg-white border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent';
+
+// Folder, tags and description under a recording's name. Editing works like
+// rename: Enter (or leaving the editor) saves, Escape cancels.
+export default function RecordingDetails({
+  recording,
+  onSaved,
+  onTagClick,
+  onFolderClick,
+}: RecordingDetailsProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [folder, setFolder] = useState('');
+  const [tags, setTags] = useState('');
+  const [description, setDescription] = useState('');
+  const editorRef = useRef<HTMLDivElement>(null);
+  const firstInputRef = useRef<HTMLInputElement>(null);
+  // Set once the editor is closing so the unmount blur doesn't save again
+  const closingRef = useRef(false);
+
+  // Focus the first field when editing starts
+  useEffect(() => {
+    if (isEditing) firstInputRef.current?.focus();
+  }, [isEditing]);
+
+  const startEditing = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setFolder(recording.folder ?? '');
+    setTags((recording.tags ?? []).join(', '));
+    setDescription(recording.description ?? '');
+    closingRef.current = false;
+    setIsEditing(true);
+  };
+
+  const saveDetails = async () => {
+    if (closingRef.current) return;
+    closingRef.current = true;
+    setIsEditing(false);
+    try {
+      await updateRecordingMeta(recording.id, {
+        folder: folder.trim() || undefined,
+        tags: parseTags(tags),
+        description: description.trim() || undefined,
+      });
+      onSaved();
+    } catch (err) {
+      console.error('Failed to update recording details:', err);
+    }
+  };
+
+  // Save once focus leaves the editor as a whole, not when moving between fields
+  const handleBlur = (e: React.FocusEvent) => {
+    if (!editorRef.current?.contains(e.relatedTarget as Node | null)) {
+      saveDetails();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !(e.target instanceof HTMLTextAreaElement && e.shiftKey)) {
+      e.preventDefault();
+      saveDetails();
+    } else if (e.key === 'Escape') {
+      closingRef.current = true;
+      setIsEditing(false);
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <div
+        ref={editorRef}
+        onClick={(e) => e.stopPropagation()}
+        onBlur={handleBlur}
+        onKeyDown={handleKeyDown}
+        className="grid grid-cols-2 gap-2 pt-1"
+      >
+        <input
+          ref={firstInputRef}
+          type="text"
+          value={folder}
+          onChange={(e) => setFolder(e.target.value)}
+          placeholder="Folder / project"
+          className={inputClassName}
+        />
+        <input
+          type="text"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder="Tags, comma separated"
+          className={inputClassName}
+        />
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Description (Shift+Enter for a new line)"
+          rows={2}
+          className={`col-span-2 resize-none ${inputClassName}`}
+        />
+      </div>
+    );
+  }
+
+  const hasDetails = recording.folder || (recording.tags?.length ?? 0) > 0 || recording.description;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 text-xs text-gray-500">
+      {recording.folder && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onFolderClick(recording.folder!);
+          }}
+          className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-gray-100 hover:bg-gray-200"
+          title="Show this folder"
+        >
+          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
+          </svg>
+          {recording.folder}
+        </button>
+      )}
+      {recording.tags?.map(tag => (
+        <button
+          key={tag}
+          onClick={(e) => {
+            e.stopPropagation();
+            onTagClick(tag);
+          }}
+          className="px-1.5 py-0.5 rounded bg-gray-100 hover:bg-gray-200"
+          title="Show this tag"
+        >
+          #{tag}
+        </button>
+      ))}
+      {recording.description && (
+        <span className="truncate max-w-xs" title={recording.description}>
+          {recording.description}
+        </span>
+      )}
+      <button
+        onClick={startEditing}
+        className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-gray-600 focus:opacity-100 focus:outline-none"
+      >
+        {hasDetails ? 'Edit details' : '+ Add tags, folder, notes'}
+      </button>
+    </div>
+  );
+}
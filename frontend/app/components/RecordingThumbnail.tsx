@@ -0,0 +1,81 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { RecordingMeta } from '@/lib/indexeddb';
+import { ensureThumbnails } from '@/lib/thumbnails';
+
+interface ThumbnailUrls {
+  poster: string;
+  sprite: string;
+  frameCount: number;
+}
+
+// Poster for a list row; hovering scrubs through the sprite strip.
+// Thumbnails are generated on first display for recordings that lack them.
+export default function RecordingThumbnail({ recording }: { recording: RecordingMeta }) {
+  const [urls, setUrls] = useState<ThumbnailUrls | null>(null);
+  const [hoverFrame, setHoverFrame] = useState<number | null>(null);
+
+  // Re-run when the blob changes (e.g. after a trim is applied)
+  useEffect(() => {
+    let cancelled = false;
+    let created: ThumbnailUrls | null = null;
+
+    ensureThumbnails(recording)
+      .then((thumbnails) => {
+        if (cancelled || !thumbnails) return;
+        created = {
+          poster: URL.createObjectURL(thumbnails.poster),
+          sprite: URL.createObjectURL(thumbnails.sprite),
+          frameCount: thumbnails.frameCount,
+        };
+        setUrls(created);
+      })
+      .catch((err) => console.error('Failed to load thumbnails:', err));
+
+    return () => {
+      cancelled = true;
+      if (created) {
+        URL.revokeObjectURL(created.poster);
+        URL.revokeObjectURL(created.sprite);
+      }
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [recording.id, recording.size]);
+
+  // Pick the sprite frame under the pointer
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!urls) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 0.999);
+    setHoverFrame(Math.floor(fraction * urls.frameCount));
+  };
+
+  const spritePosition = urls && hoverFrame !== null && urls.frameCount > 1
+    ? `${(hoverFrame / (urls.frameCount - 1)) * 100}% 0`
+    : '0 0';
+
+  return (
+    <div
+      onMouseMove={handleMouseMove}
+      onMouseLeave={() => setHoverFrame(null)}
+      className="relative flex-shrink-0 w-32 aspect-video mr-4 rounded-lg overflow-hidden bg-gray-200"
+    >
+      {urls && (
+        hoverFrame === null ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={urls.poster} alt="" className="w-full h-full object-cover" />
+        ) : (
+          <div
+            className="w-full h-full bg-no-repeat"
+            style={{
+              backgroundImage: `url(${urls.sprite})`,
+              backgroundSize: `${urls.frameCount * 100}% 100%`,
+              backgroundPosition: spritePosition,
+            }}
+          />
+        )
+      )}
+    </div>
+  );
+}
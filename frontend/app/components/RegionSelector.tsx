@@ -0,0 +1,159 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { clampRegion, regionToPixels, CropRegion, MIN_REGION_SIZE } from '@/lib/region';
+
+interface RegionSelectorProps {
+  stream: MediaStream;              // Shared surface, before any cropping
+  initialRegion: CropRegion | null; // Region used last time, if any
+  onConfirm: (region: CropRegion | null) => void; // null = whole surface
+  onCancel: () => void;
+}
+
+type Drag =
+  | { mode: 'draw'; originX: number; originY: number }
+  | { mode: 'move'; offsetX: number; offsetY: number };
+
+// Full-screen step between picking what to share and recording it: drag a
+// rectangle over a live preview to record only that part. Dragging inside
+// the current rectangle moves it instead.
+export default function RegionSelector({
+  stream,
+  initialRegion,
+  onConfirm,
+  onCancel,
+}: RegionSelectorProps) {
+  const [region, setRegion] = useState<CropRegion | null>(initialRegion);
+  const [frameSize, setFrameSize] = useState<{ width: number; height: number } | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream]);
+
+  // Enter confirms, Escape cancels
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel();
+      else if (e.key === 'Enter' && region) onConfirm(region);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [region, onConfirm, onCancel]);
+
+  // The overlay is sized exactly to the video, so no letterbox maths needed
+  const pointFromEvent = (e: React.PointerEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1),
+      y: Math.min(Math.max((e.clientY - rect.top) / rect.height, 0), 1),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y } = pointFromEvent(e);
+    const inside = region &&
+      x >= region.x && x <= region.x + region.width &&
+      y >= region.y && y <= region.y + region.height;
+    dragRef.current = inside
+      ? { mode: 'move', offsetX: x - region.x, offsetY: y - region.y }
+      : { mode: 'draw', originX: x, originY: y };
+    if (!inside) setRegion({ x, y, width: 0, height: 0 });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag || !region) return;
+    const { x, y } = pointFromEvent(e);
+    if (drag.mode === 'move') {
+      setRegion(clampRegion({ ...region, x: x - drag.offsetX, y: y - drag.offsetY }));
+    } else {
+      setRegion({
+        x: Math.min(drag.originX, x),
+        y: Math.min(drag.originY, y),
+        width: Math.abs(x - drag.originX),
+        height: Math.abs(y - drag.originY),
+      });
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+    // A click (or a sliver) clears the selection rather than leaving a speck
+    if (region && (region.width < MIN_REGION_SIZE || region.height < MIN_REGION_SIZE)) {
+      setRegion(null);
+    }
+  };
+
+  const pixels = region && frameSize ? regionToPixels(region, frameSize.width, frameSize.height) : null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col items-center justify-center gap-4 p-6 bg-black/80">
+      <p className="text-sm text-gray-200">
+        Drag over the preview to choose the area to record
+      </p>
+
+      <div className="relative max-w-full overflow-hidden rounded-lg">
+        <video
+          ref={videoRef}
+          autoPlay
+          muted
+          playsInline
+          onLoadedMetadata={(e) => setFrameSize({
+            width: e.currentTarget.videoWidth,
+            height: e.currentTarget.videoHeight,
+          })}
+          className="block max-w-full max-h-[70vh]"
+        />
+        <div
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className="absolute inset-0 cursor-crosshair touch-none select-none"
+        >
+          {region && (
+            <div
+              className="absolute border-2 border-white cursor-move"
+              style={{
+                left: `${region.x * 100}%`,
+                top: `${region.y * 100}%`,
+                width: `${region.width * 100}%`,
+                height: `${region.height * 100}%`,
+                // Dim everything outside the selection
+                boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.55)',
+              }}
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-3">
+        <span className="w-28 font-mono text-xs text-gray-300">
+          {pixels ? `${pixels.width} × ${pixels.height}` : 'Whole surface'}
+        </span>
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-gray-200 rounded-lg hover:bg-white/10 focus:outline-none focus:ring-2 focus:ring-gray-400"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onConfirm(null)}
+          className="px-4 py-2 bg-white text-gray-700 text-sm font-medium rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400"
+        >
+          Record everything
+        </button>
+        <button
+          onClick={() => region && onConfirm(region)}
+          disabled={!region}
+          className="px-4 py-2 bg-gray-900 text-white text-sm font-medium rounded-lg border border-gray-700 hover:bg-gray-800 transition-colors disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-gray-400"
+        >
+          Record selection
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { canSaveToFolder, canWriteToFolder, pickFolder } from '@/lib/saveFolder';
+
+interface SaveFolderPanelProps {
+  folder: FileSystemDirectoryHandle | null;
+  onFolderChange: (folder: FileSystemDirectoryHandle | null) => void;
+  downloadEach: boolean; // Fallback where folders can't be picked
+  onDownloadEachChange: (enabled: boolean) => void;
+  encrypted: boolean; // The library is, but files written to disk aren't
+  saveUnencrypted: boolean; // Opted in to writing them anyway
+  onSaveUnencryptedChange: (enabled: boolean) => void;
+}
+
+const buttonClassName = 'px-3 py-1.5 bg-white text-gray-700 text-xs font-medium rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2';
+
+// Where finished recordings are copied besides the library: a folder on
+// disk, or (without the File System Access API) a download of each one
+export default function SaveFolderPanel({
+  folder,
+  onFolderChange,
+  downloadEach,
+  onDownloadEachChange,
+  encrypted,
+  saveUnencrypted,
+  onSaveUnencryptedChange,
+}: SaveFolderPanelProps) {
+  // Only known in the browser, so filled in after mount
+  const [supported, setSupported] = useState(false);
+  // Permission lapses between visits and has to be granted again
+  const [writable, setWritable] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSupported(canSaveToFolder());
+  }, []);
+
+  useEffect(() => {
+    if (!folder) return;
+    let cancelled = false;
+    canWriteToFolder(folder)
+      .then((allowed) => {
+        if (!cancelled) setWritable(allowed);
+      })
+      .catch((err) => console.error('Failed to check folder permission:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [folder]);
+
+  const chooseFolder = async () => {
+    setError(null);
+    try {
+      const picked = await pickFolder();
+      setWritable(true);
+      onFolderChange(picked);
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') return;
+      console.error('Failed to choose folder:', err);
+      setError('Failed to choose folder');
+    }
+  };
+
+  const allowAccess = async () => {
+    if (!folder) return;
+    setError(null);
+    try {
+      const allowed = await canWriteToFolder(folder, true);
+      setWritable(allowed);
+      if (!allowed) setError(`Access to "${folder.name}" was not allowed`);
+    } catch (err) {
+      console.error('Failed to request folder permission:', err);
+      setError('Failed to request access to the folder');
+    }
+  };
+
+  const summary = supported
+    ? folder ? folder.name : 'Off'
+    : downloadEach ? 'Download each recording' : 'Off';
+  const paused = encrypted && !saveUnencrypted && summary !== 'Off';
+
+  return (
+    <details className="rounded-xl border border-gray-200 bg-white">
+      <summary className="flex items-center justify-between p-4 cursor-pointer select-none text-sm font-medium text-gray-500 uppercase tracking-wide">
+        <span>Save to disk</span>
+        <span className="normal-case font-normal text-xs">
+          {summary}
+          {supported && folder && !writable && ' · needs access'}
+          {paused && ' · paused while encrypted'}
+        </span>
+      </summary>
+
+      <div className="px-4 pb-4 space-y-3">
+        {supported ? (
+          <>
+            <p className="text-xs text-gray-500">
+              Finished recordings are also written as files to a folder of your choice.
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              {folder && (
+                <span className="mr-2 text-sm text-gray-900 truncate max-w-xs">{folder.name}</span>
+              )}
+              {folder && !writable && (
+                <button
+                  onClick={allowAccess}
+                  className="px-3 py-1.5 bg-amber-600 text-white text-xs font-medium rounded-lg hover:bg-amber-700 transition-colors focus:outline-none focus:ring-2 focus:ring-amber-600 focus:ring-offset-2"
+                >
+                  Allow access
+                </button>
+              )}
+              <button onClick={chooseFolder} className={buttonClassName}>
+                {folder ? 'Change folder…' : 'Choose folder…'}
+              </button>
+              {folder && (
+                <button
+                  onClick={() => onFolderChange(null)}
+                  className="px-3 py-1.5 text-xs font-medium text-gray-500 hover:text-gray-700 focus:outline-none focus:underline"
+                >
+                  Stop saving
+                </button>
+              )}
+            </div>
+          </>
+        ) : (
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={downloadEach}
+              onChange={(e) => onDownloadEachChange(e.target.checked)}
+              className="w-4 h-4 accent-gray-900 cursor-pointer"
+            />
+            Download each finished recording
+            <span className="text-xs text-gray-400">(this browser can&apos;t save to a folder)</span>
+          </label>
+        )}
+
+        {/* Copies on disk would sidestep the vault, so they need an opt-in */}
+        {encrypted && (
+          <div className="space-y-2 p-3 rounded-lg bg-amber-50 border border-amber-200">
+            <p className="text-xs text-amber-800">
+              The library is encrypted, but files saved to disk are not. Anyone with access to them
+              can watch the recordings without the passphrase.
+            </p>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={saveUnencrypted}
+                onChange={(e) => onSaveUnencryptedChange(e.target.checked)}
+                className="w-4 h-4 accent-gray-900 cursor-pointer"
+              />
+              Save unencrypted copies anyway
+            </label>
+          </div>
+        )}
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+    </details>
+  );
+}
@@ -2,50 +2,291 @@
 
 import { useState, useRef, useCallback, useEffect } from 'react';
 import { 
-  saveVideo, 
   getVideo, 
   deleteVideo, 
   getAllRecordings, 
-  generateRecordingId,
   updateRecordingMeta,
-  RecordingMeta 
+  repairRecordings,
+  getPendingRecordings,
+  finalizePendingRecording,
+  discardPendingRecording,
+  getComments,
+  addComment,
+  deleteComment,
+  getCaptions,
+  saveCaptions,
+  getSaveFolderHandle,
+  setSaveFolderHandle,
+  getVaultStatus,
+  lockVault,
+  CaptionCue,
+  RecordingComment,
+  RecordingMeta,
+  PendingRecording,
+  VaultStatus
 } from '@/lib/indexeddb';
+import { ensureThumbnails } from '@/lib/thumbnails';
+import { formatDuration, formatDate, formatSize } from '@/lib/format';
+import { enforceRetention, getQuotaShortfall } from '@/lib/storage';
+import { exportRecordings, importArchive } from '@/lib/archive';
+import { buildChaptersVtt, defaultChapterTitle } from '@/lib/chapters';
+import { buildCaptionsVtt } from '@/lib/captions';
+import { getShareUrl, uploadRecording, UploadProgress } from '@/lib/upload';
+import {
+  filterRecordings,
+  sortRecordings,
+  collectTags,
+  collectFolders,
+  EMPTY_FILTER,
+  LibraryFilter,
+  SortDirection,
+  SortKey
+} from '@/lib/library';
+import { DEFAULT_WEBCAM_OVERLAY, WebcamOverlay } from '@/lib/compositor';
+import {
+  estimateBytesPerSecond,
+  loadCaptureSettings,
+  saveCaptureSettings,
+  CaptureSettings,
+  DEFAULT_CAPTURE_SETTINGS
+} from '@/lib/capture';
+import {
+  loadMicDeviceId,
+  saveMicDeviceId,
+  MixerSettings,
+  DEFAULT_MIXER_SETTINGS
+} from '@/lib/audioMixer';
+import { loadCropRegion, saveCropRegion, CropRegion } from '@/lib/region';
+import { RecorderError, RecordingOptions } from '@/lib/recorderEngine';
+import { useScreenRecorder } from '@/lib/useScreenRecorder';
+import { onLibraryChange, onVaultChange, watchRecordingElsewhere } from '@/lib/tabSync';
+import { DEFAULT_AUTO_LOCK_MINUTES, loadAutoLockMinutes, saveAutoLockMinutes } from '@/lib/vault';
+import {
+  buildTimestampLink,
+  parseTimestampLink,
+  LoopRegion,
+  NO_LOOP,
+  TimestampLink
+} from '@/lib/playback';
+import {
+  canSaveToFolder,
+  canWriteToFolder,
+  downloadRecording,
+  loadDownloadRecordings,
+  saveDownloadRecordings,
+  loadSaveUnencrypted,
+  saveSaveUnencrypted,
+  writeRecordingToFolder
+} from '@/lib/saveFolder';
+import TrimEditor from './TrimEditor';
+import RecordingThumbnail from './RecordingThumbnail';
+import WebcamControls from './WebcamControls';
+import StoragePanel from './StoragePanel';
+import LibraryToolbar from './LibraryToolbar';
+import RecordingDetails from './RecordingDetails';
+import UploadProgressBar from './UploadProgressBar';
+import PlaybackTimeline from './PlaybackTimeline';
+import PlayerControls from './PlayerControls';
+import CommentPanel from './CommentPanel';
+import ChapterList from './ChapterList';
+import CaptionEditor from './CaptionEditor';
+import LiveAnnotator from './LiveAnnotator';
+import CaptureSettingsPanel from './CaptureSettingsPanel';
+import AudioMixerPanel from './AudioMixerPanel';
+import MicrophoneSelect from './MicrophoneSelect';
+import RegionSelector from './RegionSelector';
+import ConvertPanel from './ConvertPanel';
+import SaveFolderPanel from './SaveFolderPanel';
+import MergePanel from './MergePanel';
+import VaultPanel from './VaultPanel';
+import VaultUnlock from './VaultUnlock';
 
-// Maximum recording duration in milliseconds (3 minutes)
-const MAX_RECORDING_DURATION = 3 * 60 * 1000;
+// localStorage flag set once older recordings have been made seekable
+const WEBM_REPAIR_KEY = 'screenRecorder.webmRepaired';
 
 export default function ScreenRecorder() {
-  // Recording state
-  const [isRecording, setIsRecording] = useState(false);
+  // Library and playback state
   const [recordings, setRecordings] = useState<RecordingMeta[]>([]);
+  // Whether `recordings` has been read since the library was last opened
+  const [recordingsLoaded, setRecordingsLoaded] = useState(false);
   const [selectedRecording, setSelectedRecording] = useState<string | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [recordingTime, setRecordingTime] = useState(0);
+  const [notice, setNotice] = useState<string | null>(null);
   
-  // Microphone toggle state
+  // Shown instead of starting when storage looks too full for a recording
+  const [quotaWarning, setQuotaWarning] = useState<string | null>(null);
+  
+  // Unfinished recordings left behind by a crash or reload
+  const [pendingRecordings, setPendingRecordings] = useState<PendingRecording[]>([]);
+  
+  // Another tab holds the recording lock
+  const [recordingElsewhere, setRecordingElsewhere] = useState(false);
+  
+  // Where finished recordings are also saved: a folder on disk, or a
+  // download of each where folders can't be picked
+  const [saveFolder, setSaveFolder] = useState<FileSystemDirectoryHandle | null>(null);
+  const [downloadEach, setDownloadEach] = useState(false);
+  const [saveUnencrypted, setSaveUnencrypted] = useState(false);
+  
+  // Passphrase encryption (null until checked); nothing is loaded from the
+  // library while it's locked
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus | null>(null);
+  const [autoLockMinutes, setAutoLockMinutes] = useState(DEFAULT_AUTO_LOCK_MINUTES);
+  const libraryOpen = vaultStatus === 'off' || vaultStatus === 'unlocked';
+  
+  // Quality settings and max length for new recordings (loaded after mount,
+  // since localStorage isn't available during server rendering)
+  const [captureSettings, setCaptureSettings] = useState<CaptureSettings>(DEFAULT_CAPTURE_SETTINGS);
+  
+  // Microphone toggle state and chosen input device (null = default)
   const [includeMic, setIncludeMic] = useState(true);
+  const [micDeviceId, setMicDeviceId] = useState<string | null>(null);
+  
+  // Per-source volume/mute, adjustable while recording
+  const [mixerSettings, setMixerSettings] = useState<MixerSettings>(DEFAULT_MIXER_SETTINGS);
+  
+  // Webcam bubble toggle and placement
+  const [includeWebcam, setIncludeWebcam] = useState(false);
+  const [webcamOverlay, setWebcamOverlay] = useState<WebcamOverlay>(DEFAULT_WEBCAM_OVERLAY);
+  
+  // Drawing tools toggle; while recording with them, the player shows the
+  // live composite with a drawing surface instead of a saved recording
+  const [includeDrawing, setIncludeDrawing] = useState(false);
+  
+  // Region crop toggle, and the open region selector: the engine waits on
+  // `resolve`, which gets the chosen region or null if cancelled
+  const [includeCrop, setIncludeCrop] = useState(false);
+  const [regionPrompt, setRegionPrompt] = useState<{
+    stream: MediaStream;
+    resolve: (choice: { region: CropRegion | null } | null) => void;
+  } | null>(null);
+  
+  // Title typed for the next chapter marker (blank uses "Chapter N")
+  const [chapterTitle, setChapterTitle] = useState('');
+  
+  // Upload each chunk to the server while recording, and per-recording
+  // progress of uploads in flight (keyed by recording ID)
+  const [uploadWhileRecording, setUploadWhileRecording] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<Record<string, UploadProgress>>({});
+  
+  // Recordings ticked in the list (export and other bulk actions)
+  const [checkedIds, setCheckedIds] = useState<Set<string>>(new Set());
+  const [isTransferring, setIsTransferring] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [mergeOpen, setMergeOpen] = useState(false);
+  
+  // Library search, filters and sort order
+  const [libraryFilter, setLibraryFilter] = useState<LibraryFilter>(EMPTY_FILTER);
+  const [sortKey, setSortKey] = useState<SortKey>('date');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
   
   // Inline editing state for rename feature
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState('');
   const editInputRef = useRef<HTMLInputElement>(null);
   
-  // Refs for MediaRecorder and stream management
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const micStreamRef = useRef<MediaStream | null>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const chunksRef = useRef<Blob[]>([]);
-  const timerRef = useRef<NodeJS.Timeout | null>(null);
-  const autoStopTimerRef = useRef<NodeJS.Timeout | null>(null);
-  const currentRecordingIdRef = useRef<string | null>(null);
-  const recordingStartTimeRef = useRef<number | null>(null);
-
-  // Load all saved recordings on mount
+  // Player element, used to enforce trim points
+  const videoRef = useRef<HTMLVideoElement>(null);
+  
+  // A-B loop on the selected recording
+  const [loop, setLoop] = useState<LoopRegion>(NO_LOOP);
+  
+  // Recording and time from a timestamp link in the URL hash, waiting for
+  // the library to load; then the time to seek to once the player has it
+  const [pendingLink, setPendingLink] = useState<TimestampLink | null>(null);
+  const linkedTimeRef = useRef<number | null>(null);
+  
+  // Review comments on the selected recording
+  const [comments, setComments] = useState<RecordingComment[]>([]);
+  
+  // Object URL of the selected recording's WebVTT chapters track
+  const [chaptersUrl, setChaptersUrl] = useState<string | null>(null);
+  
+  // Saved caption cues of the selected recording, and their subtitles track
+  const [captions, setCaptions] = useState<CaptionCue[]>([]);
+  const [captionsUrl, setCaptionsUrl] = useState<string | null>(null);
+
+  // Capture itself runs in the recorder engine; its events land here
+  const recorder = useScreenRecorder({
+    saved: (meta) => handleRecordingSaved(meta),
+    error: (err) => handleRecorderError(err),
+    uploadprogress: ({ recordingId, progress }) => setProgressFor(recordingId, progress),
+    uploadend: ({ recordingId, meta, error: uploadError }) => {
+      if (uploadError && meta) {
+        console.error('Failed to finish upload:', uploadError);
+        setError(`Failed to upload "${meta.name}" - use Upload to try again`);
+      }
+      setProgressFor(recordingId, null);
+      loadRecordings();
+    },
+  });
+  const isRecording = recorder.state === 'recording' || recorder.state === 'stopping' || recorder.state === 'saving';
+  const isPaused = recorder.paused;
+
+  // Check whether the library is encrypted, on mount and whenever another
+  // tab changes that (a new passphrase locks this tab out)
   useEffect(() => {
-    loadRecordings();
+    const checkVault = () => {
+      getVaultStatus()
+        .then((status) => {
+          if (status === 'locked') closeLibrary();
+          setVaultStatus(status);
+        })
+        .catch((err) => console.error('Failed to check encryption:', err));
+    };
+    checkVault();
+    return onVaultChange(checkVault);
   }, []);
+  
+  // Load all saved recordings once the library is readable
+  useEffect(() => {
+    if (libraryOpen) loadRecordings();
+  }, [libraryOpen]);
+  
+  // Keep the list in step with recordings changed in other tabs
+  useEffect(() => {
+    return onLibraryChange((change) => {
+      if (!libraryOpen) return;
+      loadRecordings();
+      if (change.type === 'deleted' && change.id === selectedRecording) {
+        setVideoUrl(null);
+        setSelectedRecording(null);
+      }
+    });
+  }, [selectedRecording, libraryOpen]);
+  
+  // Only one tab records at a time
+  useEffect(() => watchRecordingElsewhere(setRecordingElsewhere), []);
+  
+  // Look for unfinished sessions on mount and whenever another tab stops
+  // recording; while it records, its own session would show up as one
+  useEffect(() => {
+    if (libraryOpen && !recordingElsewhere) loadPendingRecordings();
+  }, [libraryOpen, recordingElsewhere]);
+
+  useEffect(() => {
+    setCaptureSettings(loadCaptureSettings());
+    setMicDeviceId(loadMicDeviceId());
+    setDownloadEach(loadDownloadRecordings());
+    setSaveUnencrypted(loadSaveUnencrypted());
+    setAutoLockMinutes(loadAutoLockMinutes());
+    getSaveFolderHandle()
+      .then(setSaveFolder)
+      .catch((err) => console.error('Failed to load save folder:', err));
+  }, []);
+
+  // One-time pass adding duration/cues to recordings saved before the fix
+  useEffect(() => {
+    if (!libraryOpen || localStorage.getItem(WEBM_REPAIR_KEY)) return;
+    
+    repairRecordings()
+      .then((repaired) => {
+        localStorage.setItem(WEBM_REPAIR_KEY, '1');
+        if (repaired > 0) loadRecordings();
+      })
+      .catch((err) => console.error('Failed to repair recordings:', err));
+  }, [libraryOpen]);
 
   // Cleanup object URLs on unmount
   useEffect(() => {
@@ -54,6 +295,89 @@ export default function ScreenRecorder() {
     };
   }, [videoUrl]);
 
+  // Load the selected recording's comments
+  useEffect(() => {
+    setComments([]);
+    if (!selectedRecording) return;
+    
+    let cancelled = false;
+    getComments(selectedRecording)
+      .then((loaded) => {
+        if (!cancelled) setComments(loaded);
+      })
+      .catch((err) => console.error('Failed to load comments:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedRecording]);
+
+  // Load the selected recording's captions
+  useEffect(() => {
+    setCaptions([]);
+    if (!selectedRecording) return;
+    
+    let cancelled = false;
+    getCaptions(selectedRecording)
+      .then((loaded) => {
+        if (!cancelled) setCaptions(loaded);
+      })
+      .catch((err) => console.error('Failed to load captions:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedRecording]);
+
+  // A loop belongs to the recording it was set on
+  useEffect(() => {
+    setLoop(NO_LOOP);
+  }, [selectedRecording]);
+
+  // Pick up timestamp links on load and when the hash changes
+  useEffect(() => {
+    const readLink = () => {
+      const link = parseTimestampLink(window.location.hash);
+      if (link) setPendingLink(link);
+    };
+    readLink();
+    window.addEventListener('hashchange', readLink);
+    return () => window.removeEventListener('hashchange', readLink);
+  }, []);
+
+  // Open the linked recording once the list is loaded. A locked library
+  // keeps the link waiting until it's unlocked.
+  useEffect(() => {
+    if (!pendingLink || !libraryOpen || !recordingsLoaded) return;
+    setPendingLink(null);
+    if (!recordings.some(rec => rec.id === pendingLink.id)) {
+      setNotice('Recording not found in this browser');
+      return;
+    }
+    linkedTimeRef.current = pendingLink.time;
+    playRecording(pendingLink.id);
+  }, [pendingLink, libraryOpen, recordingsLoaded, recordings]);
+
+  // Rebuild the subtitles track when the saved captions change
+  useEffect(() => {
+    if (captions.length === 0) {
+      setCaptionsUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([buildCaptionsVtt(captions)], { type: 'text/vtt' }));
+    setCaptionsUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [captions]);
+
+  // Apply volume and mute changes to the live mix
+  const { setMixerSettings: applyMixerSettings, setWebcamOverlay: applyWebcamOverlay } = recorder;
+  useEffect(() => {
+    applyMixerSettings(mixerSettings);
+  }, [mixerSettings, applyMixerSettings]);
+
+  // Apply webcam bubble changes to the live composite
+  useEffect(() => {
+    applyWebcamOverlay(webcamOverlay);
+  }, [webcamOverlay, applyWebcamOverlay]);
+
   // Focus input when editing starts
   useEffect(() => {
     if (editingId && editInputRef.current) {
@@ -67,11 +391,28 @@ export default function ScreenRecorder() {
     try {
       const allRecordings = await getAllRecordings();
       setRecordings(allRecordings);
+      setRecordingsLoaded(true);
+      // Drop ticks for recordings that no longer exist
+      setCheckedIds(prev => {
+        const ids = new Set(allRecordings.map(rec => rec.id));
+        const next = new Set(Array.from(prev).filter(id => ids.has(id)));
+        return next.size === prev.size ? prev : next;
+      });
     } catch (err) {
       console.error('Failed to load recordings:', err);
     }
   };
 
+  // Fetch unfinished recordings that can be recovered
+  const loadPendingRecordings = async () => {
+    try {
+      const pending = await getPendingRecordings();
+      setPendingRecordings(pending);
+    } catch (err) {
+      console.error('Failed to load unfinished recordings:', err);
+    }
+  };
+
   // Play a selected recording
   const playRecording = useCallback(async (id: string) => {
     try {
@@ -89,6 +430,132 @@ export default function ScreenRecorder() {
     }
   }, [videoUrl]);
 
+  // Recordings as shown in the list, after search/filter/sort
+  const visibleRecordings = sortRecordings(
+    filterRecordings(recordings, libraryFilter),
+    sortKey,
+    sortDirection
+  );
+  const isFiltered = libraryFilter.query !== '' || libraryFilter.tag !== null || libraryFilter.folder !== null;
+  
+  // Ticked recordings, oldest first (the initial merge order)
+  const checkedRecordings = recordings
+    .filter(rec => checkedIds.has(rec.id))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  // Keep playback inside the selected recording's trim points
+  const selectedMeta = recordings.find(rec => rec.id === selectedRecording) ?? null;
+  
+  // Playback panels are hidden while the player shows the drawing surface
+  const showPlayback = videoUrl !== null && selectedMeta !== null && recorder.annotations === null;
+  
+  // Rebuild the chapters track when the selection or its chapters change
+  const selectedChapters = selectedMeta?.chapters;
+  const selectedDuration = selectedMeta?.duration ?? 0;
+  useEffect(() => {
+    if (!selectedChapters?.length) {
+      setChaptersUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(
+      new Blob([buildChaptersVtt(selectedChapters, selectedDuration)], { type: 'text/vtt' })
+    );
+    setChaptersUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [selectedChapters, selectedDuration]);
+  
+  const enforceTrim = () => {
+    const video = videoRef.current;
+    if (!video || !selectedMeta || video.paused) return;
+    const start = selectedMeta.trimStart ?? 0;
+    const end = selectedMeta.trimEnd ?? Infinity;
+    
+    if (video.currentTime < start) {
+      video.currentTime = start;
+    } else if (video.currentTime >= end) {
+      video.pause();
+      video.currentTime = end;
+    }
+  };
+  
+  // Start playback at the linked time, or else the trim in point
+  const handleLoadedMetadata = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (linkedTimeRef.current !== null) {
+      video.currentTime = linkedTimeRef.current;
+      linkedTimeRef.current = null;
+    } else if (selectedMeta?.trimStart) {
+      video.currentTime = selectedMeta.trimStart;
+    }
+  };
+  
+  // The custom controls replace the browser's, which toggled on click
+  const togglePlayback = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused) video.play().catch((err) => console.error('Failed to play recording:', err));
+    else video.pause();
+  };
+  
+  // Restart from the in point when play is pressed at the out point
+  const handlePlay = () => {
+    const video = videoRef.current;
+    if (!video || !selectedMeta) return;
+    const start = selectedMeta.trimStart ?? 0;
+    const end = selectedMeta.trimEnd ?? Infinity;
+    if (video.currentTime < start || video.currentTime >= end) {
+      video.currentTime = start;
+    }
+  };
+
+  // Jump the player to a moment (comment markers and list)
+  const seekTo = (time: number) => {
+    if (videoRef.current) videoRef.current.currentTime = time;
+  };
+  
+  // Copy a link that opens the selected recording at `time`
+  const copyTimestampLink = async (time: number) => {
+    if (!selectedMeta) return;
+    const link = buildTimestampLink({ id: selectedMeta.id, time }, window.location.href);
+    try {
+      await navigator.clipboard.writeText(link);
+      setNotice(`Link to "${selectedMeta.name}" at ${formatDuration(Math.floor(time))} copied`);
+    } catch (err) {
+      console.error('Failed to copy link:', err);
+      setNotice(`Link: ${link}`);
+    }
+  };
+
+  const handleAddComment = async (time: number, text: string) => {
+    if (!selectedRecording) return;
+    try {
+      setComments(await addComment(selectedRecording, time, text));
+    } catch (err) {
+      console.error('Failed to add comment:', err);
+      setError('Failed to save comment');
+    }
+  };
+
+  const handleDeleteComment = async (commentId: string) => {
+    if (!selectedRecording) return;
+    try {
+      setComments(await deleteComment(selectedRecording, commentId));
+    } catch (err) {
+      console.error('Failed to delete comment:', err);
+    }
+  };
+
+  const handleSaveCaptions = async (cues: CaptionCue[]) => {
+    if (!selectedRecording) return;
+    try {
+      setCaptions(await saveCaptions(selectedRecording, cues));
+    } catch (err) {
+      console.error('Failed to save captions:', err);
+      setError('Failed to save captions');
+    }
+  };
+
   // Delete a recording
   const handleDelete = useCallback(async (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
@@ -105,6 +572,146 @@ export default function ScreenRecorder() {
     }
   }, [selectedRecording, videoUrl]);
 
+  // Tick or untick a recording for bulk actions
+  const toggleChecked = (id: string) => {
+    setCheckedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  // Download the ticked recordings (or the whole library) as one archive
+  const handleExport = async () => {
+    setIsTransferring(true);
+    setError(null);
+    try {
+      const ids = checkedIds.size > 0 ? Array.from(checkedIds) : null;
+      const archive = await exportRecordings(ids);
+      const url = URL.createObjectURL(archive);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `recordings-${new Date().toISOString().slice(0, 10)}.zip`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (err) {
+      console.error('Failed to export recordings:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export recordings');
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  // Restore recordings from an exported archive
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    
+    setIsTransferring(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const { imported, renamed } = await importArchive(file);
+      await loadRecordings();
+      setNotice(
+        `Imported ${imported.length} recording${imported.length === 1 ? '' : 's'}` +
+        (renamed > 0 ? ` (${renamed} given a new ID to avoid a clash)` : '')
+      );
+    } catch (err) {
+      console.error('Failed to import recordings:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import recordings');
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  const setProgressFor = (id: string, progress: UploadProgress | null) => {
+    setUploadProgress(prev => {
+      const next = { ...prev };
+      if (progress) next[id] = progress;
+      else delete next[id];
+      return next;
+    });
+  };
+
+  // Upload a saved recording (resuming an interrupted upload if possible)
+  const handleUpload = async (rec: RecordingMeta, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (uploadProgress[rec.id]) return;
+    
+    setError(null);
+    setProgressFor(rec.id, { sent: 0, total: rec.size });
+    try {
+      const blob = await getVideo(rec.id);
+      if (!blob) throw new Error('Recording not found');
+      await uploadRecording(rec, blob, (progress) => setProgressFor(rec.id, progress));
+    } catch (err) {
+      console.error('Failed to upload recording:', err);
+      setError(`Failed to upload "${rec.name}" - try again to resume`);
+    } finally {
+      setProgressFor(rec.id, null);
+      await loadRecordings();
+    }
+  };
+
+  // Copy an uploaded recording's share link
+  const copyShareLink = async (rec: RecordingMeta, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!rec.upload) return;
+    try {
+      await navigator.clipboard.writeText(getShareUrl(rec.upload.id));
+      setNotice(`Link to "${rec.name}" copied`);
+    } catch (err) {
+      console.error('Failed to copy link:', err);
+      setNotice(`Share link: ${getShareUrl(rec.upload.id)}`);
+    }
+  };
+
+  // Toggle whether a recording is exempt from retention cleanup
+  const togglePinned = async (rec: RecordingMeta, e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      await updateRecordingMeta(rec.id, { pinned: !rec.pinned });
+      await loadRecordings();
+    } catch (err) {
+      console.error('Failed to pin recording:', err);
+    }
+  };
+
+  // Refresh after recordings were removed elsewhere (e.g. retention rules)
+  const handleRecordingsDeleted = useCallback(async (ids: string[]) => {
+    if (selectedRecording && ids.includes(selectedRecording)) {
+      if (videoUrl) URL.revokeObjectURL(videoUrl);
+      setVideoUrl(null);
+      setSelectedRecording(null);
+    }
+    await loadRecordings();
+  }, [selectedRecording, videoUrl]);
+
+  // Turn an unfinished recording into a normal saved recording
+  const recoverRecording = async (id: string) => {
+    try {
+      await finalizePendingRecording(id);
+      await loadPendingRecordings();
+      await loadRecordings();
+    } catch (err) {
+      console.error('Failed to recover recording:', err);
+      setError('Failed to recover recording');
+    }
+  };
+
+  // Throw away an unfinished recording
+  const discardRecording = async (id: string) => {
+    try {
+      await discardPendingRecording(id);
+      await loadPendingRecordings();
+    } catch (err) {
+      console.error('Failed to discard recording:', err);
+    }
+  };
+
   // Start inline editing for rename
   const startEditing = (rec: RecordingMeta, e: React.MouseEvent) => {
     e.stopPropagation();
@@ -138,183 +745,197 @@ export default function ScreenRecorder() {
     }
   };
 
+  // Drop a chapter marker, titled from the input if anything was typed
+  const { addChapter: addRecorderChapter } = recorder;
+  const addChapter = useCallback(() => {
+    addRecorderChapter(chapterTitle);
+    setChapterTitle('');
+  }, [addRecorderChapter, chapterTitle]);
+  
+  // "M" drops a chapter while recording, unless typing in a field
+  useEffect(() => {
+    if (!isRecording) return;
+    
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() !== 'm' || e.ctrlKey || e.metaKey || e.altKey || e.repeat) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+      e.preventDefault();
+      addChapter();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isRecording, addChapter]);
+
+  // Open the region selector over the shared surface and wait for a choice
+  const chooseRegion = (stream: MediaStream) => {
+    return new Promise<{ region: CropRegion | null } | null>((resolve) => {
+      setRegionPrompt({ stream, resolve });
+    }).then((choice) => {
+      setRegionPrompt(null);
+      if (choice?.region) saveCropRegion(choice.region);
+      return choice;
+    });
+  };
+
   // Start screen recording
-  const startRecording = useCallback(async () => {
-    try {
-      setError(null);
-      setRecordingTime(0);
-      chunksRef.current = [];
-      currentRecordingIdRef.current = generateRecordingId();
-      recordingStartTimeRef.current = Date.now();
-      
-      // Request screen sharing permission
-      const screenStream = await navigator.mediaDevices.getDisplayMedia({
-        video: true,
-        audio: true,
-      });
-      
-      streamRef.current = screenStream;
-      let finalStream: MediaStream;
-      
-      if (includeMic) {
-        try {
-          // Request microphone access
-          const micStream = await navigator.mediaDevices.getUserMedia({
-            audio: {
-              echoCancellation: true,
-              noiseSuppression: true,
-              autoGainControl: true,
-            },
-            video: false,
-          });
-          
-          micStreamRef.current = micStream;
-          
-          // Mix screen audio + mic audio using Web Audio API
-          const audioContext = new AudioContext();
-          audioContextRef.current = audioContext;
-          const destination = audioContext.createMediaStreamDestination();
-          
-          // Add screen audio if present
-          const screenAudioTracks = screenStream.getAudioTracks();
-          if (screenAudioTracks.length > 0) {
-            const screenAudioStream = new MediaStream(screenAudioTracks);
-            const screenSource = audioContext.createMediaStreamSource(screenAudioStream);
-            screenSource.connect(destination);
-          }
-          
-          // Add microphone audio
-          const micSource = audioContext.createMediaStreamSource(micStream);
-          micSource.connect(destination);
-          
-          // Final stream: screen video + mixed audio
-          finalStream = new MediaStream([
-            ...screenStream.getVideoTracks(),
-            ...destination.stream.getAudioTracks(),
-          ]);
-          
-        } catch (micError) {
-          console.warn('Microphone access denied, recording screen only:', micError);
-          finalStream = screenStream;
+  const startRecording = async (skipQuotaCheck = false) => {
+    setError(null);
+    setQuotaWarning(null);
+    
+    // Warn before recording if a full-length capture might not fit
+    if (!skipQuotaCheck) {
+      try {
+        const shortfall = await getQuotaShortfall(
+          captureSettings.maxDurationSec * 1000,
+          estimateBytesPerSecond(captureSettings)
+        );
+        if (shortfall > 0) {
+          setQuotaWarning(
+            `Storage is nearly full - a full-length recording may need ${formatSize(shortfall)} more than is available. Free up space or record anyway.`
+          );
+          return;
         }
-      } else {
-        finalStream = screenStream;
+      } catch (err) {
+        console.error('Failed to check storage quota:', err);
       }
-      
-      // Determine supported MIME type
-      const mimeType = MediaRecorder.isTypeSupported('video/webm;codecs=vp9')
-        ? 'video/webm;codecs=vp9'
-        : MediaRecorder.isTypeSupported('video/webm')
-        ? 'video/webm'
-        : 'video/mp4';
-      
-      const mediaRecorder = new MediaRecorder(finalStream, { mimeType });
-      mediaRecorderRef.current = mediaRecorder;
-      
-      // Collect video data chunks
-      mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          chunksRef.current.push(event.data);
-        }
-      };
-      
-      // Handle recording stop
-      mediaRecorder.onstop = async () => {
-        const blob = new Blob(chunksRef.current, { type: mimeType });
-        const duration = recordingStartTimeRef.current != null
-          ? Math.floor((Date.now() - recordingStartTimeRef.current) / 1000)
-          : recordingTime; // Fallback to state if needed
-        
-        if (currentRecordingIdRef.current) {
-          await saveVideo(currentRecordingIdRef.current, blob, duration);
-          await loadRecordings();
-          await playRecording(currentRecordingIdRef.current);
-        }
-        
-        // Cleanup streams
-        streamRef.current?.getTracks().forEach(track => track.stop());
-        micStreamRef.current?.getTracks().forEach(track => track.stop());
-        audioContextRef.current?.close();
-        
-        if (timerRef.current) clearInterval(timerRef.current);
-        if (autoStopTimerRef.current) clearTimeout(autoStopTimerRef.current);
-        recordingStartTimeRef.current = null;
-        
-        setIsRecording(false);
-        setRecordingTime(0);
-      };
-      
-      // Handle user stopping screen share via browser UI
-      screenStream.getVideoTracks()[0].onended = () => {
-        if (mediaRecorderRef.current?.state === 'recording') {
-          mediaRecorderRef.current.stop();
-        }
-      };
-      
-      // Start recording
-      mediaRecorder.start(1000);
-      setIsRecording(true);
-      
-      // Recording timer
-      timerRef.current = setInterval(() => {
-        if (recordingStartTimeRef.current != null) {
-          const elapsedMs = Date.now() - recordingStartTimeRef.current;
-          setRecordingTime(Math.floor(elapsedMs / 1000));
-        }
-      }, 1000);
-      
-      // Auto-stop after max duration
-      autoStopTimerRef.current = setTimeout(() => {
-        if (mediaRecorderRef.current?.state === 'recording') {
-          mediaRecorderRef.current.stop();
-        }
-      }, MAX_RECORDING_DURATION);
-      
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to start recording';
-      setError(errorMessage);
-      console.error('Recording error:', err);
     }
-  }, [playRecording, includeMic, recordingTime]);
+    
+    setChapterTitle('');
+    const options: RecordingOptions = {
+      capture: captureSettings,
+      includeMic,
+      micDeviceId,
+      mixer: mixerSettings,
+      includeWebcam,
+      webcamOverlay,
+      includeDrawing,
+      upload: uploadWhileRecording,
+      ...(includeCrop && { chooseRegion }),
+    };
+    await recorder.start(options);
+  };
 
-  // Stop recording manually
-  const stopRecording = useCallback(() => {
-    if (mediaRecorderRef.current?.state === 'recording') {
-      mediaRecorderRef.current.stop();
+  // `keep` lists further recordings retention must spare, such as the
+  // sources of a merge
+  const handleRecordingSaved = async (meta: RecordingMeta | null, keep: string[] = []) => {
+    if (meta) saveToDisk(meta);
+    
+    try {
+      // Apply retention rules now that the library has grown, sparing
+      // the new recording
+      await enforceRetention(meta ? [meta.id, ...keep] : keep);
+      
+      if (meta) {
+        // Start thumbnail generation now; the list row picks up the result
+        ensureThumbnails(meta).catch((err) => console.error('Failed to create thumbnails:', err));
+      }
+      await loadRecordings();
+      if (meta) await playRecording(meta.id);
+    } catch (err) {
+      console.error('Failed to refresh recordings:', err);
     }
-  }, []);
+  };
 
-  const formatDuration = (totalSeconds: number) => {
-    if (totalSeconds < 0) return '0:00';
+  // A merge finished: treat the result like a new recording, keeping the
+  // recordings it was made from
+  const handleMerged = (meta: RecordingMeta, sourceIds: string[]) => {
+    setMergeOpen(false);
+    setCheckedIds(new Set());
+    handleRecordingSaved(meta, sourceIds);
+  };
 
-    console.log('totalSeconds', totalSeconds);
-  
-    const hours = Math.floor(totalSeconds / 3600);
-    const minutes = Math.floor((totalSeconds % 3600) / 60);
-    const seconds = totalSeconds % 60;
+  // Write a finished recording to the save folder, or download it
+  const saveToDisk = async (meta: RecordingMeta) => {
+    const download = downloadEach && !canSaveToFolder();
+    if (!saveFolder && !download) return;
+    // Files on disk aren't encrypted; only write them if the user said so
+    if (vaultStatus !== 'off' && !saveUnencrypted) return;
+    
+    try {
+      const blob = await getVideo(meta.id);
+      if (!blob) return;
+      
+      if (!saveFolder) {
+        downloadRecording(meta, blob);
+        return;
+      }
+      // Permission can't be asked for here, only from a click
+      if (!(await canWriteToFolder(saveFolder))) {
+        setError(`"${meta.name}" wasn't saved to ${saveFolder.name} - allow access under Save to disk`);
+        return;
+      }
+      const fileName = await writeRecordingToFolder(saveFolder, meta, blob);
+      setNotice(`Saved "${fileName}" to ${saveFolder.name}`);
+    } catch (err) {
+      console.error('Failed to save recording to disk:', err);
+      setError(`Failed to save "${meta.name}" to disk`);
+    }
+  };
   
-    if (hours > 0) {
-      return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+  const handleSaveFolderChange = async (folder: FileSystemDirectoryHandle | null) => {
+    setSaveFolder(folder);
+    try {
+      await setSaveFolderHandle(folder);
+    } catch (err) {
+      console.error('Failed to store save folder:', err);
     }
+  };
   
-    return `${minutes}:${String(seconds).padStart(2, '0')}`;
+  // Drop everything read from the library, e.g. when it locks
+  const closeLibrary = () => {
+    setRecordings([]);
+    setRecordingsLoaded(false);
+    setPendingRecordings([]);
+    setCheckedIds(new Set());
+    setSelectedRecording(null);
+    setVideoUrl(null);
   };
-
-  // Format timestamp to readable date
-  const formatDate = (timestamp: number) => {
-    return new Date(timestamp).toLocaleDateString(undefined, {
-      month: 'short',
-      day: 'numeric',
-      hour: 'numeric',
-      minute: '2-digit',
-    });
+  
+  const lockLibrary = () => {
+    // Not while the library is being re-encrypted with the keys
+    if (!lockVault()) return;
+    closeLibrary();
+    setVaultStatus('locked');
   };
-
-  // Format file size
-  const formatSize = (bytes: number) => {
-    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  
+  const handleVaultStatusChange = (status: VaultStatus) => {
+    setVaultStatus(status);
+    loadRecordings();
+  };
+  
+  const handleAutoLockChange = (minutes: number) => {
+    setAutoLockMinutes(minutes);
+    saveAutoLockMinutes(minutes);
   };
+  
+  // Lock after a stretch without input, unless recording
+  useEffect(() => {
+    if (vaultStatus !== 'unlocked' || autoLockMinutes === 0 || isRecording) return;
+    
+    const delay = autoLockMinutes * 60_000;
+    let timer = window.setTimeout(lockLibrary, delay);
+    const restart = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(lockLibrary, delay);
+    };
+    const events = ['pointerdown', 'pointermove', 'keydown', 'wheel'];
+    events.forEach((event) => window.addEventListener(event, restart, { passive: true }));
+    return () => {
+      window.clearTimeout(timer);
+      events.forEach((event) => window.removeEventListener(event, restart));
+    };
+  }, [vaultStatus, autoLockMinutes, isRecording]);
+  
+  const handleRecorderError = (err: RecorderError) => {
+    setError(err.message);
+    // Chunks of a recording that failed to save can be recovered
+    if (err.phase === 'save') loadPendingRecordings();
+  };
+
+  if (vaultStatus === 'locked') {
+    return <VaultUnlock onUnlocked={() => setVaultStatus('unlocked')} />;
+  }
 
   return (
     <div className="min-h-screen bg-gray-50 p-6 md:p-8">
@@ -332,13 +953,85 @@ export default function ScreenRecorder() {
           </div>
         )}
         
+        {/* Status notice */}
+        {notice && (
+          <div className="flex items-center justify-between px-4 py-3 bg-gray-100 border border-gray-200 rounded-lg text-gray-700 text-sm">
+            {notice}
+            <button
+              onClick={() => setNotice(null)}
+              className="text-xs font-medium text-gray-500 hover:text-gray-700 focus:outline-none"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+        
+        {/* Unfinished recordings that can be recovered */}
+        {!isRecording && !recordingElsewhere && pendingRecordings.length > 0 && (
+          <div className="space-y-2">
+            {pendingRecordings.map((pending) => (
+              <div
+                key={pending.id}
+                className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800"
+              >
+                <span>
+                  Unfinished recording from {formatDate(pending.startedAt)} ({formatDuration(pending.duration)}, {formatSize(pending.size)})
+                </span>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => recoverRecording(pending.id)}
+                    className="px-3 py-1.5 bg-amber-600 text-white text-xs font-medium rounded-lg hover:bg-amber-700 transition-colors focus:outline-none focus:ring-2 focus:ring-amber-600 focus:ring-offset-2"
+                  >
+                    Recover
+                  </button>
+                  <button
+                    onClick={() => discardRecording(pending.id)}
+                    className="px-3 py-1.5 bg-white text-amber-800 text-xs font-medium rounded-lg border border-amber-300 hover:bg-amber-100 transition-colors focus:outline-none focus:ring-2 focus:ring-amber-400 focus:ring-offset-2"
+                  >
+                    Discard
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        
+        {/* Low storage warning */}
+        {quotaWarning && !isRecording && (
+          <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+            <span>{quotaWarning}</span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => startRecording(true)}
+                className="px-3 py-1.5 bg-amber-600 text-white text-xs font-medium rounded-lg hover:bg-amber-700 transition-colors focus:outline-none focus:ring-2 focus:ring-amber-600 focus:ring-offset-2"
+              >
+                Record anyway
+              </button>
+              <button
+                onClick={() => setQuotaWarning(null)}
+                className="px-3 py-1.5 bg-white text-amber-800 text-xs font-medium rounded-lg border border-amber-300 hover:bg-amber-100 transition-colors focus:outline-none focus:ring-2 focus:ring-amber-400 focus:ring-offset-2"
+              >
+                Dismiss
+              </button>
+            </div>
+          </div>
+        )}
+        
+        {/* Another tab is recording */}
+        {recordingElsewhere && !isRecording && (
+          <div className="px-4 py-3 bg-gray-100 border border-gray-200 rounded-lg text-gray-700 text-sm">
+            Recording in progress in another tab
+          </div>
+        )}
+        
         {/* Recording controls */}
         <div className="flex flex-wrap items-center gap-4">
           {!isRecording ? (
             <>
               <button
-                onClick={startRecording}
-                className="inline-flex items-center gap-2 px-5 py-2.5 bg-gray-900 text-white text-sm font-medium rounded-lg hover:bg-gray-800 transition-colors focus:outline-none focus:ring-2 focus:ring-gray-900 focus:ring-offset-2"
+                onClick={() => startRecording()}
+                disabled={recorder.state === 'acquiring' || recordingElsewhere}
+                className="inline-flex items-center gap-2 px-5 py-2.5 bg-gray-900 text-white text-sm font-medium rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-gray-900 focus:ring-offset-2"
               >
                 <span className="w-2 h-2 bg-red-500 rounded-full" />
                 Record Screen
@@ -358,53 +1051,476 @@ export default function ScreenRecorder() {
                 </svg>
                 Mic {includeMic ? 'On' : 'Off'}
               </button>
+              {includeMic && (
+                <MicrophoneSelect
+                  deviceId={micDeviceId}
+                  onChange={(deviceId) => {
+                    setMicDeviceId(deviceId);
+                    saveMicDeviceId(deviceId);
+                  }}
+                />
+              )}
+              
+              {/* Webcam toggle */}
+              <button
+                onClick={() => setIncludeWebcam(!includeWebcam)}
+                className={`inline-flex items-center gap-2 px-4 py-2.5 text-sm font-medium rounded-lg border transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 ${
+                  includeWebcam 
+                    ? 'bg-gray-900 text-white border-gray-900 hover:bg-gray-800 focus:ring-gray-900' 
+                    : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50 focus:ring-gray-400'
+                }`}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                </svg>
+                Camera {includeWebcam ? 'On' : 'Off'}
+              </button>
+              
+              {/* Drawing tools toggle */}
+              <button
+                onClick={() => setIncludeDrawing(!includeDrawing)}
+                className={`inline-flex items-center gap-2 px-4 py-2.5 text-sm font-medium rounded-lg border transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 ${
+                  includeDrawing 
+                    ? 'bg-gray-900 text-white border-gray-900 hover:bg-gray-800 focus:ring-gray-900' 
+                    : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50 focus:ring-gray-400'
+                }`}
+                title="Draw and highlight on the recording from a live preview"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                </svg>
+                Draw {includeDrawing ? 'On' : 'Off'}
+              </button>
+              
+              {/* Region crop toggle */}
+              <button
+                onClick={() => setIncludeCrop(!includeCrop)}
+                className={`inline-flex items-center gap-2 px-4 py-2.5 text-sm font-medium rounded-lg border transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 ${
+                  includeCrop 
+                    ? 'bg-gray-900 text-white border-gray-900 hover:bg-gray-800 focus:ring-gray-900' 
+                    : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50 focus:ring-gray-400'
+                }`}
+                title="Choose an area of the shared screen to record"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 2v14a2 2 0 002 2h14M2 6h14a2 2 0 012 2v14" />
+                </svg>
+                Crop {includeCrop ? 'On' : 'Off'}
+              </button>
+              
+              {/* Upload-while-recording toggle */}
+              <button
+                onClick={() => setUploadWhileRecording(!uploadWhileRecording)}
+                className={`inline-flex items-center gap-2 px-4 py-2.5 text-sm font-medium rounded-lg border transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 ${
+                  uploadWhileRecording 
+                    ? 'bg-gray-900 text-white border-gray-900 hover:bg-gray-800 focus:ring-gray-900' 
+                    : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50 focus:ring-gray-400'
+                }`}
+                title="Send the recording to the server as it's captured, ready to share"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+                </svg>
+                Upload {uploadWhileRecording ? 'On' : 'Off'}
+              </button>
+              
+              {includeWebcam && (
+                <WebcamControls
+                  overlay={webcamOverlay}
+                  onChange={setWebcamOverlay}
+                  showVisibilityToggle={false}
+                />
+              )}
             </>
           ) : (
-            <div className="flex items-center gap-4">
-              <div className="inline-flex items-center gap-2 px-4 py-2.5 bg-red-50 rounded-lg">
-                <span className="w-2.5 h-2.5 bg-red-500 rounded-full animate-pulse" />
-                <span className="font-mono text-sm text-gray-900">
-                  {formatDuration(recordingTime)}
-                </span>
-              </div>
+            <div className="flex flex-wrap items-center gap-4">
+              {isPaused ? (
+                <div className="inline-flex items-center gap-2 px-4 py-2.5 bg-amber-50 border border-amber-200 rounded-lg">
+                  <span className="inline-flex gap-0.5">
+                    <span className="w-1 h-2.5 bg-amber-500 rounded-sm" />
+                    <span className="w-1 h-2.5 bg-amber-500 rounded-sm" />
+                  </span>
+                  <span className="font-mono text-sm text-gray-900">
+                    {formatDuration(recorder.elapsed)}
+                    <span className="text-gray-400"> / {formatDuration(recorder.maxDuration)}</span>
+                  </span>
+                  <span className="text-xs font-medium text-amber-700 uppercase">
+                    Paused
+                  </span>
+                </div>
+              ) : (
+                <div className="inline-flex items-center gap-2 px-4 py-2.5 bg-red-50 rounded-lg">
+                  <span className="w-2.5 h-2.5 bg-red-500 rounded-full animate-pulse" />
+                  <span className="font-mono text-sm text-gray-900">
+                    {formatDuration(recorder.elapsed)}
+                    <span className="text-gray-400"> / {formatDuration(recorder.maxDuration)}</span>
+                  </span>
+                </div>
+              )}
+              
+              {/* Pause / resume toggle */}
               <button
-                onClick={stopRecording}
-                className="inline-flex items-center gap-2 px-5 py-2.5 bg-red-600 text-white text-sm font-medium rounded-lg hover:bg-red-700 transition-colors focus:outline-none focus:ring-2 focus:ring-red-600 focus:ring-offset-2"
+                onClick={isPaused ? recorder.resume : recorder.pause}
+                className="inline-flex items-center gap-2 px-4 py-2.5 bg-white text-gray-700 text-sm font-medium rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2"
+              >
+                {isPaused ? (
+                  <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                    <path d="M8 5v14l11-7z" />
+                  </svg>
+                ) : (
+                  <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                    <path d="M6 5h4v14H6zM14 5h4v14h-4z" />
+                  </svg>
+                )}
+                {isPaused ? 'Resume' : 'Pause'}
+              </button>
+              <button
+                onClick={recorder.stop}
+                disabled={recorder.state !== 'recording'}
+                className="inline-flex items-center gap-2 px-5 py-2.5 bg-red-600 text-white text-sm font-medium rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-red-600 focus:ring-offset-2"
               >
                 <span className="w-2.5 h-2.5 bg-white rounded-sm" />
                 Stop
               </button>
+              
+              {/* Chapter marker: optional title, then the button or the M key */}
+              <div className="inline-flex items-center rounded-lg border border-gray-300 bg-white focus-within:ring-2 focus-within:ring-gray-400 focus-within:ring-offset-2">
+                <input
+                  type="text"
+                  value={chapterTitle}
+                  onChange={(e) => setChapterTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') addChapter();
+                  }}
+                  placeholder={defaultChapterTitle(recorder.chapters.length + 1)}
+                  className="w-32 px-3 py-2.5 text-sm text-gray-900 bg-transparent rounded-l-lg focus:outline-none"
+                  aria-label="Chapter title"
+                />
+                <button
+                  onClick={addChapter}
+                  className="inline-flex items-center gap-2 px-3 py-2.5 text-sm font-medium text-gray-700 border-l border-gray-300 rounded-r-lg hover:bg-gray-50 focus:outline-none"
+                  title="Add a chapter marker (M)"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 21V5a2 2 0 012-2h11l-2 4 2 4H5" />
+                  </svg>
+                  Chapter
+                  <kbd className="px-1 text-[10px] font-mono text-gray-500 border border-gray-300 rounded">M</kbd>
+                </button>
+              </div>
+              {recorder.chapters.length > 0 && (
+                <span className="text-xs text-gray-500">
+                  {recorder.chapters.length} chapter{recorder.chapters.length === 1 ? '' : 's'}
+                </span>
+              )}
+              
+              {/* Live upload progress */}
+              {recorder.recordingId && uploadProgress[recorder.recordingId] && (
+                <span className="text-xs text-gray-500">
+                  Uploaded {formatSize(uploadProgress[recorder.recordingId].sent)}
+                </span>
+              )}
+              
+              {/* Move or hide the webcam bubble mid-recording */}
+              {recorder.webcamActive && (
+                <WebcamControls
+                  overlay={webcamOverlay}
+                  onChange={setWebcamOverlay}
+                  showVisibilityToggle
+                />
+              )}
             </div>
           )}
         </div>
 
-        {/* Video Player */}
-        <div className="rounded-xl overflow-hidden bg-black aspect-video">
-          {videoUrl ? (
-            <video
-              src={videoUrl}
-              controls
-              autoPlay
-              className="w-full h-full"
-            />
-          ) : (
-            <div className="w-full h-full flex items-center justify-center text-gray-500 text-sm">
-              {recordings.length > 0 
-                ? 'Select a recording to play' 
-                : 'No recordings yet. Click "Record Screen" to start.'}
+        {/* Region selection for the screen that was just shared */}
+        {regionPrompt && (
+          <RegionSelector
+            stream={regionPrompt.stream}
+            initialRegion={loadCropRegion()}
+            onConfirm={(region) => regionPrompt.resolve({ region })}
+            onCancel={() => regionPrompt.resolve(null)}
+          />
+        )}
+        
+        {/* Pre-record countdown */}
+        {recorder.countdown !== null && (
+          <div className="fixed inset-0 z-50 flex flex-col items-center justify-center gap-6 bg-black/70">
+            <span className="text-sm font-medium text-gray-300 uppercase tracking-wide">
+              Recording starts in
+            </span>
+            <span key={recorder.countdown} className="font-mono text-8xl font-semibold text-white animate-pulse">
+              {recorder.countdown}
+            </span>
+            <button
+              onClick={recorder.cancel}
+              className="px-4 py-2 text-sm font-medium text-gray-200 rounded-lg hover:bg-white/10 focus:outline-none focus:ring-2 focus:ring-gray-400"
+            >
+              Cancel
+            </button>
+          </div>
+        )}
+        
+        {/* Levels, volume and mute for each audio source while recording */}
+        {isRecording && recorder.mixer && (
+          <AudioMixerPanel
+            mixer={recorder.mixer}
+            settings={mixerSettings}
+            onChange={setMixerSettings}
+          />
+        )}
+
+        {/* Quality settings for the next recording */}
+        {!isRecording && (
+          <CaptureSettingsPanel
+            settings={captureSettings}
+            onChange={(settings) => {
+              setCaptureSettings(settings);
+              saveCaptureSettings(settings);
+            }}
+          />
+        )}
+
+        {/* Copying finished recordings to disk */}
+        {!isRecording && (
+          <SaveFolderPanel
+            folder={saveFolder}
+            onFolderChange={handleSaveFolderChange}
+            downloadEach={downloadEach}
+            onDownloadEachChange={(enabled) => {
+              setDownloadEach(enabled);
+              saveDownloadRecordings(enabled);
+            }}
+            encrypted={vaultStatus !== null && vaultStatus !== 'off'}
+            saveUnencrypted={saveUnencrypted}
+            onSaveUnencryptedChange={(enabled) => {
+              setSaveUnencrypted(enabled);
+              saveSaveUnencrypted(enabled);
+            }}
+          />
+        )}
+
+        {/* Passphrase encryption of the library */}
+        {!isRecording && vaultStatus !== null && (
+          <VaultPanel
+            status={vaultStatus}
+            onStatusChange={handleVaultStatusChange}
+            onLock={lockLibrary}
+            autoLockMinutes={autoLockMinutes}
+            onAutoLockMinutesChange={handleAutoLockChange}
+            disabled={recordingElsewhere}
+          />
+        )}
+
+        {/* Video Player, with the comment timeline and panel once one is selected */}
+        <div className={showPlayback ? 'grid gap-4 md:grid-cols-[1fr_16rem]' : ''}>
+          <div className="space-y-2">
+            <div className="rounded-xl overflow-hidden bg-black aspect-video">
+              {recorder.annotations ? (
+                <LiveAnnotator
+                  stream={recorder.annotations.stream}
+                  layer={recorder.annotations.layer}
+                />
+              ) : videoUrl ? (
+                <video
+                  ref={videoRef}
+                  src={videoUrl}
+                  autoPlay
+                  onClick={togglePlayback}
+                  onLoadedMetadata={handleLoadedMetadata}
+                  onPlay={handlePlay}
+                  onTimeUpdate={enforceTrim}
+                  className="w-full h-full"
+                >
+                  {chaptersUrl && (
+                    <track kind="chapters" src={chaptersUrl} srcLang="en" label="Chapters" default />
+                  )}
+                  {captionsUrl && (
+                    <track key={captionsUrl} kind="subtitles" src={captionsUrl} srcLang="en" label="Captions" default />
+                  )}
+                </video>
+              ) : (
+                <div className="w-full h-full flex items-center justify-center text-gray-500 text-sm">
+                  {recordings.length > 0 
+                    ? 'Select a recording to play' 
+                    : 'No recordings yet. Click "Record Screen" to start.'}
+                </div>
+              )}
             </div>
+            
+            {showPlayback && selectedMeta && (
+              <PlayerControls
+                recording={selectedMeta}
+                videoRef={videoRef}
+                loop={loop}
+                onLoopChange={setLoop}
+                onCopyLink={copyTimestampLink}
+                shortcutsEnabled={!isRecording}
+              />
+            )}
+            
+            {showPlayback && selectedMeta && (
+              <PlaybackTimeline
+                comments={comments}
+                chapters={selectedMeta.chapters ?? []}
+                duration={selectedMeta.duration}
+                loop={loop}
+                videoRef={videoRef}
+                onSeek={seekTo}
+              />
+            )}
+            
+            {showPlayback && selectedMeta && (
+              <ChapterList
+                recording={selectedMeta}
+                videoRef={videoRef}
+                onSeek={seekTo}
+                onSaved={loadRecordings}
+              />
+            )}
+            
+            {showPlayback && selectedMeta && (
+              <CaptionEditor
+                key={selectedMeta.id}
+                recording={selectedMeta}
+                cues={captions}
+                videoRef={videoRef}
+                onSave={handleSaveCaptions}
+                onSeek={seekTo}
+              />
+            )}
+          </div>
+          
+          {showPlayback && selectedMeta && (
+            <CommentPanel
+              key={selectedMeta.id}
+              comments={comments}
+              videoRef={videoRef}
+              onAdd={handleAddComment}
+              onDelete={handleDeleteComment}
+              onSeek={seekTo}
+            />
           )}
         </div>
 
+        {/* Trim editor for the selected recording */}
+        {showPlayback && selectedMeta && (
+          <TrimEditor
+            key={`${selectedMeta.id}-${selectedMeta.size}`}
+            recording={selectedMeta}
+            videoRef={videoRef}
+            onTrimSaved={loadRecordings}
+            onTrimApplied={async () => {
+              await loadRecordings();
+              await playRecording(selectedMeta.id);
+              // Comments and captions were moved onto the trimmed timeline
+              setComments(await getComments(selectedMeta.id));
+              setCaptions(await getCaptions(selectedMeta.id));
+            }}
+          />
+        )}
+        
+        {/* MP4/GIF downloads of the selected recording */}
+        {showPlayback && selectedMeta && (
+          <ConvertPanel key={selectedMeta.id} recording={selectedMeta} />
+        )}
+
+        {/* Library import/export - import works on an empty library too */}
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".zip,application/zip"
+          onChange={handleImport}
+          className="hidden"
+        />
+        {recordings.length === 0 && (
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={isTransferring}
+            className="text-sm font-medium text-gray-500 hover:text-gray-700 disabled:opacity-50 focus:outline-none focus:underline"
+          >
+            Import recordings from an export…
+          </button>
+        )}
+
         {/* Recordings List - Vertical Layout */}
         {recordings.length > 0 && (
           <div className="space-y-3">
-            <h2 className="text-sm font-medium text-gray-500 uppercase tracking-wide">
-              Recordings ({recordings.length})
-            </h2>
+            <div className="flex items-center justify-between gap-3">
+              <h2 className="text-sm font-medium text-gray-500 uppercase tracking-wide">
+                Recordings ({isFiltered ? `${visibleRecordings.length} of ${recordings.length}` : recordings.length})
+              </h2>
+              <div className="flex items-center gap-2">
+                {checkedIds.size > 0 && (
+                  <button
+                    onClick={() => setCheckedIds(new Set())}
+                    className="px-2 py-1 text-xs font-medium text-gray-500 hover:text-gray-700 focus:outline-none"
+                  >
+                    Clear selection
+                  </button>
+                )}
+                {checkedRecordings.length >= 2 && (
+                  <button
+                    onClick={() => setMergeOpen(true)}
+                    disabled={mergeOpen}
+                    className="px-3 py-1.5 bg-white text-gray-700 text-xs font-medium rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2"
+                  >
+                    Merge ({checkedRecordings.length})
+                  </button>
+                )}
+                <button
+                  onClick={handleExport}
+                  disabled={isTransferring}
+                  className="px-3 py-1.5 bg-white text-gray-700 text-xs font-medium rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2"
+                >
+                  {checkedIds.size > 0 ? `Export selected (${checkedIds.size})` : 'Export all'}
+                </button>
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  disabled={isTransferring}
+                  className="px-3 py-1.5 bg-white text-gray-700 text-xs font-medium rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2"
+                >
+                  Import
+                </button>
+              </div>
+            </div>
+            
+            {mergeOpen && checkedRecordings.length >= 2 && (
+              <MergePanel
+                key={checkedRecordings.map(rec => rec.id).join()}
+                recordings={checkedRecordings}
+                onMerged={handleMerged}
+                onClose={() => setMergeOpen(false)}
+              />
+            )}
+            
+            <LibraryToolbar
+              filter={libraryFilter}
+              onFilterChange={setLibraryFilter}
+              sortKey={sortKey}
+              sortDirection={sortDirection}
+              onSortChange={(key, direction) => {
+                setSortKey(key);
+                setSortDirection(direction);
+              }}
+              tags={collectTags(recordings)}
+              folders={collectFolders(recordings)}
+            />
+            
+            {visibleRecordings.length === 0 && (
+              <div className="flex items-center justify-between p-4 rounded-xl border border-dashed border-gray-300 text-sm text-gray-500">
+                No recordings match.
+                <button
+                  onClick={() => setLibraryFilter(EMPTY_FILTER)}
+                  className="text-xs font-medium text-gray-700 hover:text-gray-900 focus:outline-none focus:underline"
+                >
+                  Clear filters
+                </button>
+              </div>
+            )}
             
             <div className="space-y-2">
-              {recordings.map((rec) => (
+              {visibleRecordings.map((rec) => (
                 <div
                   key={rec.id}
                   onClick={() => playRecording(rec.id)}
@@ -414,6 +1530,19 @@ export default function ScreenRecorder() {
                       : 'bg-white border-gray-200 hover:border-gray-300 hover:shadow-sm'
                   }`}
                 >
+                  {/* Selection checkbox for bulk actions */}
+                  <input
+                    type="checkbox"
+                    checked={checkedIds.has(rec.id)}
+                    onChange={() => toggleChecked(rec.id)}
+                    onClick={(e) => e.stopPropagation()}
+                    className="mr-3 w-4 h-4 accent-gray-900 cursor-pointer"
+                    aria-label={`Select ${rec.name}`}
+                  />
+                  
+                  {/* Poster thumbnail with hover scrub */}
+                  <RecordingThumbnail recording={rec} />
+                  
                   {/* Left side: Name and metadata */}
                   <div className="flex-1 min-w-0 space-y-1">
                     {/* Recording name - inline editable */}
@@ -446,6 +1575,14 @@ export default function ScreenRecorder() {
                       </div>
                     )}
                     
+                    {/* Folder, tags and description - inline editable */}
+                    <RecordingDetails
+                      recording={rec}
+                      onSaved={loadRecordings}
+                      onTagClick={(tag) => setLibraryFilter({ ...libraryFilter, tag })}
+                      onFolderClick={(folder) => setLibraryFilter({ ...libraryFilter, folder })}
+                    />
+                    
                     {/* Metadata row: duration, size, date */}
                     <div className="flex items-center gap-3 text-xs text-gray-500">
                       {/* Duration */}
@@ -464,6 +1601,13 @@ export default function ScreenRecorder() {
                         {formatSize(rec.size)}
                       </span>
                       
+                      {/* Capture resolution and frame rate */}
+                      {rec.capture?.height && (
+                        <span title={rec.capture.mimeType}>
+                          {rec.capture.height}p{rec.capture.frameRate ? ` · ${rec.capture.frameRate} fps` : ''}
+                        </span>
+                      )}
+                      
                       {/* Date */}
                       <span className="inline-flex items-center gap-1">
                         <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -483,6 +1627,50 @@ export default function ScreenRecorder() {
                       </span>
                     )}
                     
+                    {/* Upload progress, share link or upload button */}
+                    {uploadProgress[rec.id] ? (
+                      <UploadProgressBar progress={uploadProgress[rec.id]} />
+                    ) : rec.upload?.complete ? (
+                      <button
+                        onClick={(e) => copyShareLink(rec, e)}
+                        className="p-2 text-gray-900 hover:bg-gray-100 rounded-lg transition-all focus:outline-none"
+                        title="Copy share link"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+                        </svg>
+                      </button>
+                    ) : (
+                      <button
+                        onClick={(e) => handleUpload(rec, e)}
+                        className={`p-2 rounded-lg transition-all focus:opacity-100 focus:outline-none ${
+                          rec.upload
+                            ? 'text-amber-600 hover:bg-amber-50'
+                            : 'opacity-0 group-hover:opacity-100 text-gray-400 hover:text-gray-600 hover:bg-gray-100'
+                        }`}
+                        title={rec.upload && !rec.upload.live ? 'Resume upload' : 'Upload and get a share link'}
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+                        </svg>
+                      </button>
+                    )}
+                    
+                    {/* Pin button - pinned recordings survive retention cleanup */}
+                    <button
+                      onClick={(e) => togglePinned(rec, e)}
+                      className={`p-2 rounded-lg transition-all focus:opacity-100 focus:outline-none ${
+                        rec.pinned
+                          ? 'text-gray-900 hover:bg-gray-100'
+                          : 'opacity-0 group-hover:opacity-100 text-gray-400 hover:text-gray-600 hover:bg-gray-100'
+                      }`}
+                      title={rec.pinned ? 'Unpin' : 'Pin (keep when cleaning up)'}
+                    >
+                      <svg className="w-4 h-4" fill={rec.pinned ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+                      </svg>
+                    </button>
+                    
                     {/* Delete button */}
                     <button
                       onClick={(e) => handleDelete(rec.id, e)}
@@ -499,6 +1687,12 @@ export default function ScreenRecorder() {
             </div>
           </div>
         )}
+        
+        {/* Storage usage and retention rules */}
+        <StoragePanel
+          recordings={recordings}
+          onRecordingsDeleted={handleRecordingsDeleted}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,19 @@
+'use client';
+
+import { useEffect } from 'react';
+
+// Registers public/sw.js, which keeps the app shell available offline.
+// Production only: in development it would cache over hot reloads.
+// The ffmpeg.wasm version is part of the worker's URL, so upgrading it
+// installs a new worker with a fresh cache.
+export default function ServiceWorker() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+    const params = new URLSearchParams({ ffmpeg: process.env.NEXT_PUBLIC_FFMPEG_VERSION ?? '' });
+    navigator.serviceWorker
+      .register(`/sw.js?${params}`)
+      .catch((err) => console.error('Failed to register service worker:', err));
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,191 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { RecordingMeta } from '@/lib/indexeddb';
+import {
+  getStorageStatus,
+  requestPersistentStorage,
+  loadRetentionSettings,
+  saveRetentionSettings,
+  selectExpiredRecordings,
+  enforceRetention,
+  DEFAULT_RETENTION,
+  RETENTION_MINIMUMS,
+  RetentionSettings,
+  StorageStatus
+} from '@/lib/storage';
+import { formatSize } from '@/lib/format';
+
+interface StoragePanelProps {
+  recordings: RecordingMeta[];
+  onRecordingsDeleted: (ids: string[]) => void;
+}
+
+const RULES: { key: keyof RetentionSettings; label: string; unit: string; step: number }[] = [
+  { key: 'keepLast', label: 'Keep last', unit: 'recordings', step: 1 },
+  { key: 'maxAgeDays', label: 'Delete older than', unit: 'days', step: 1 },
+  { key: 'maxTotalGB', label: 'Cap total at', unit: 'GB', step: 0.5 },
+];
+
+// Quota usage, per-recording sizes and retention rules
+export default function StoragePanel({ recordings, onRecordingsDeleted }: StoragePanelProps) {
+  const [status, setStatus] = useState<StorageStatus | null>(null);
+  const [settings, setSettings] = useState<RetentionSettings>(DEFAULT_RETENTION);
+  const [isApplying, setIsApplying] = useState(false);
+
+  // Stored rules are only readable in the browser, so loaded after mount
+  useEffect(() => {
+    setSettings(loadRetentionSettings());
+  }, []);
+
+  // Refresh the estimate whenever the library changes
+  useEffect(() => {
+    getStorageStatus()
+      .then(setStatus)
+      .catch((err) => console.error('Failed to read storage estimate:', err));
+  }, [recordings]);
+
+  const recordingsTotal = recordings.reduce((sum, rec) => sum + rec.size, 0);
+  const largest = recordings.reduce((max, rec) => Math.max(max, rec.size), 0);
+  const bySize = [...recordings].sort((a, b) => b.size - a.size);
+  const expired = selectExpiredRecordings(recordings, settings);
+  const usagePercent = status && status.quota > 0
+    ? Math.min((status.usage / status.quota) * 100, 100)
+    : 0;
+
+  const handlePersist = async () => {
+    try {
+      await requestPersistentStorage();
+      setStatus(await getStorageStatus());
+    } catch (err) {
+      console.error('Failed to request persistent storage:', err);
+    }
+  };
+
+  // Empty input disables the rule
+  const updateRule = (key: keyof RetentionSettings, value: string) => {
+    const parsed = parseFloat(value);
+    const next = {
+      ...settings,
+      [key]: value === '' || isNaN(parsed) ? null : Math.max(parsed, RETENTION_MINIMUMS[key]),
+    };
+    setSettings(next);
+    saveRetentionSettings(next);
+  };
+
+  const applyNow = async () => {
+    setIsApplying(true);
+    try {
+      const deleted = await enforceRetention();
+      if (deleted.length > 0) onRecordingsDeleted(deleted);
+    } catch (err) {
+      console.error('Failed to apply retention rules:', err);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <details className="group/storage rounded-xl border border-gray-200 bg-white">
+      <summary className="flex items-center justify-between p-4 cursor-pointer select-none text-sm font-medium text-gray-500 uppercase tracking-wide">
+        <span>Storage</span>
+        {status && (
+          <span className="normal-case font-normal text-xs">
+            {formatSize(status.usage)} of {formatSize(status.quota)} used
+          </span>
+        )}
+      </summary>
+
+      <div className="px-4 pb-4 space-y-5">
+        {/* Quota usage */}
+        {status ? (
+          <div className="space-y-2">
+            <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+              <div
+                className={`h-full rounded-full ${usagePercent > 90 ? 'bg-red-500' : 'bg-gray-900'}`}
+                style={{ width: `${usagePercent}%` }}
+              />
+            </div>
+            <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-gray-500">
+              <span>
+                Recordings: {formatSize(recordingsTotal)} · Available: {formatSize(Math.max(status.quota - status.usage, 0))}
+              </span>
+              {status.persisted ? (
+                <span className="text-green-700">Persistent storage on</span>
+              ) : (
+                <button
+                  onClick={handlePersist}
+                  className="px-2 py-1 font-medium text-gray-700 rounded-md border border-gray-300 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-400"
+                  title="Ask the browser not to evict recordings when disk space runs low"
+                >
+                  Make storage persistent
+                </button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <p className="text-xs text-gray-500">Storage estimates aren&apos;t available in this browser.</p>
+        )}
+
+        {/* Per-recording sizes */}
+        {bySize.length > 0 && (
+          <div className="space-y-1.5 max-h-48 overflow-y-auto">
+            {bySize.map((rec) => (
+              <div key={rec.id} className="flex items-center gap-3 text-xs text-gray-600">
+                <span className="w-40 truncate">{rec.pinned ? '📌 ' : ''}{rec.name}</span>
+                <div className="flex-1 h-1.5 rounded-full bg-gray-100 overflow-hidden">
+                  <div
+                    className="h-full rounded-full bg-gray-400"
+                    style={{ width: `${largest > 0 ? (rec.size / largest) * 100 : 0}%` }}
+                  />
+                </div>
+                <span className="w-16 text-right font-mono">{formatSize(rec.size)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Retention rules */}
+        <div className="space-y-2">
+          <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wide">
+            Retention (pinned recordings are kept)
+          </h3>
+          <div className="flex flex-wrap gap-3">
+            {RULES.map(({ key, label, unit, step }) => (
+              <label key={key} className="inline-flex items-center gap-2 text-xs text-gray-600">
+                {label}
+                <input
+                  type="number"
+                  min={RETENTION_MINIMUMS[key]}
+                  step={step}
+                  value={settings[key] ?? ''}
+                  placeholder="off"
+                  onChange={(e) => updateRule(key, e.target.value)}
+                  className="w-20 px-2 py-1 text-xs bg-white border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                />
+                {unit}
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center gap-3 text-xs text-gray-500">
+            <span>
+              Rules run after each recording.{' '}
+              {expired.length > 0
+                ? `${expired.length} recording${expired.length === 1 ? '' : 's'} currently match.`
+                : 'Nothing matches right now.'}
+            </span>
+            {expired.length > 0 && (
+              <button
+                onClick={applyNow}
+                disabled={isApplying}
+                className="px-2 py-1 font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-red-600 focus:ring-offset-2"
+              >
+                Delete now
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </details>
+  );
+}
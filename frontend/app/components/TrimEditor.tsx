@@ -0,0 +1,241 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import {
+  getVideo,
+  replaceVideo,
+  updateRecordingMeta,
+  RecordingMeta
+} from '@/lib/indexeddb';
+import { trimVideo } from '@/lib/trim';
+
+// Shortest section the handles can be squeezed to (seconds)
+const MIN_TRIM_LENGTH = 1;
+
+// Step used for handle rounding and arrow-key nudges (seconds)
+const TRIM_STEP = 0.1;
+
+interface TrimEditorProps {
+  recording: RecordingMeta;
+  videoRef: React.RefObject<HTMLVideoElement>;
+  onTrimSaved: () => void;   // Trim points were stored on the metadata
+  onTrimApplied: () => void; // Blob was re-encoded and replaced
+}
+
+// Format seconds with tenths (e.g. "1:05.3")
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = (seconds % 60).toFixed(1).padStart(4, '0');
+  return `${minutes}:${rest}`;
+};
+
+// Trim view shown under the player. Handles set non-destructive in/out
+// points on the recording's metadata; "Apply trim" bakes them into the blob.
+export default function TrimEditor({
+  recording,
+  videoRef,
+  onTrimSaved,
+  onTrimApplied,
+}: TrimEditorProps) {
+  const duration = recording.duration;
+  const [trimStart, setTrimStart] = useState(recording.trimStart ?? 0);
+  const [trimEnd, setTrimEnd] = useState(recording.trimEnd ?? duration);
+  const [dragging, setDragging] = useState<'start' | 'end' | null>(null);
+  const [applyProgress, setApplyProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+
+  const isTrimmed = trimStart > 0 || trimEnd < duration;
+  const isApplying = applyProgress !== null;
+
+  // Nothing sensible to trim on very short recordings
+  if (duration <= MIN_TRIM_LENGTH) return null;
+
+  // Clamp and round a handle position so in < out by at least MIN_TRIM_LENGTH
+  const clampHandle = (handle: 'start' | 'end', time: number) => {
+    const rounded = Math.round(time / TRIM_STEP) * TRIM_STEP;
+    return handle === 'start'
+      ? Math.min(Math.max(rounded, 0), trimEnd - MIN_TRIM_LENGTH)
+      : Math.max(Math.min(rounded, duration), trimStart + MIN_TRIM_LENGTH);
+  };
+
+  // Move a handle and scrub the player to it
+  const moveHandle = (handle: 'start' | 'end', time: number) => {
+    const clamped = clampHandle(handle, time);
+    if (handle === 'start') setTrimStart(clamped);
+    else setTrimEnd(clamped);
+
+    if (videoRef.current) {
+      videoRef.current.pause();
+      videoRef.current.currentTime = clamped;
+    }
+    return clamped;
+  };
+
+  // Persist trim points; a full-length selection clears them
+  const saveTrim = async (start: number, end: number) => {
+    const cleared = start <= 0 && end >= duration;
+    try {
+      await updateRecordingMeta(recording.id, {
+        trimStart: cleared ? undefined : start,
+        trimEnd: cleared ? undefined : end,
+      });
+      onTrimSaved();
+    } catch (err) {
+      console.error('Failed to save trim:', err);
+      setError('Failed to save trim');
+    }
+  };
+
+  // Convert a pointer position on the track to a timeline position
+  const timeFromPointer = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    const fraction = Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1);
+    return fraction * duration;
+  };
+
+  const handlePointerDown = (handle: 'start' | 'end', e: React.PointerEvent) => {
+    if (isApplying) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragging(handle);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragging) return;
+    moveHandle(dragging, timeFromPointer(e.clientX));
+  };
+
+  const handlePointerUp = () => {
+    if (!dragging) return;
+    setDragging(null);
+    saveTrim(trimStart, trimEnd);
+  };
+
+  // Arrow keys nudge the focused handle
+  const handleKeyDown = (handle: 'start' | 'end', e: React.KeyboardEvent) => {
+    if (isApplying || (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight')) return;
+    e.preventDefault();
+    const current = handle === 'start' ? trimStart : trimEnd;
+    const step = e.shiftKey ? 1 : TRIM_STEP;
+    const next = moveHandle(handle, current + (e.key === 'ArrowLeft' ? -step : step));
+    saveTrim(handle === 'start' ? next : trimStart, handle === 'end' ? next : trimEnd);
+  };
+
+  // Play the selected section - the player stops at the out point
+  const previewTrim = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = trimStart;
+    video.play();
+  };
+
+  const resetTrim = () => {
+    setTrimStart(0);
+    setTrimEnd(duration);
+    saveTrim(0, duration);
+  };
+
+  // Re-encode the selected section and replace the stored blob
+  const applyTrim = async () => {
+    setError(null);
+    setApplyProgress(0);
+    videoRef.current?.pause();
+
+    try {
+      const blob = await getVideo(recording.id);
+      if (!blob) throw new Error('Recording not found');
+
+      const trimmed = await trimVideo(blob, trimStart, trimEnd, setApplyProgress);
+      await replaceVideo(recording.id, trimmed, Math.round(trimEnd - trimStart), { start: trimStart, end: trimEnd });
+      onTrimApplied();
+    } catch (err) {
+      console.error('Failed to apply trim:', err);
+      setError('Failed to apply trim');
+    } finally {
+      setApplyProgress(null);
+    }
+  };
+
+  const startPercent = (trimStart / duration) * 100;
+  const endPercent = (trimEnd / duration) * 100;
+
+  return (
+    <div className="space-y-3 p-4 bg-white border border-gray-200 rounded-xl">
+      {/* Header: selected range */}
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span className="font-medium uppercase tracking-wide">Trim</span>
+        <span className="font-mono">
+          {formatTime(trimStart)} – {formatTime(trimEnd)} ({formatTime(trimEnd - trimStart)})
+        </span>
+      </div>
+
+      {/* Timeline with in/out handles */}
+      <div
+        ref={trackRef}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className="relative h-10 bg-gray-100 rounded-lg select-none touch-none"
+      >
+        {/* Selected section */}
+        <div
+          className="absolute inset-y-0 bg-gray-900/10 border-y-2 border-gray-900"
+          style={{ left: `${startPercent}%`, width: `${endPercent - startPercent}%` }}
+        />
+
+        {(['start', 'end'] as const).map((handle) => (
+          <div
+            key={handle}
+            role="slider"
+            tabIndex={0}
+            aria-label={handle === 'start' ? 'Trim start' : 'Trim end'}
+            aria-valuemin={0}
+            aria-valuemax={duration}
+            aria-valuenow={handle === 'start' ? trimStart : trimEnd}
+            onPointerDown={(e) => handlePointerDown(handle, e)}
+            onKeyDown={(e) => handleKeyDown(handle, e)}
+            className={`absolute inset-y-0 w-3 -ml-1.5 rounded bg-gray-900 cursor-ew-resize focus:outline-none focus:ring-2 focus:ring-gray-400 ${
+              dragging === handle ? 'ring-2 ring-gray-400' : ''
+            }`}
+            style={{ left: `${handle === 'start' ? startPercent : endPercent}%` }}
+          />
+        ))}
+      </div>
+
+      {/* Actions */}
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={previewTrim}
+          disabled={isApplying}
+          className="px-3 py-1.5 bg-white text-gray-700 text-xs font-medium rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2"
+        >
+          Preview
+        </button>
+        <button
+          onClick={resetTrim}
+          disabled={isApplying || !isTrimmed}
+          className="px-3 py-1.5 bg-white text-gray-700 text-xs font-medium rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2"
+        >
+          Reset
+        </button>
+        <button
+          onClick={applyTrim}
+          disabled={isApplying || !isTrimmed}
+          className="px-3 py-1.5 bg-gray-900 text-white text-xs font-medium rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-gray-900 focus:ring-offset-2"
+        >
+          {isApplying ? `Applying… ${Math.round(applyProgress * 100)}%` : 'Apply trim'}
+        </button>
+        {isApplying && (
+          <span className="text-xs text-gray-500">
+            Re-encoding runs in real time - keep this tab open
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="text-xs text-red-600">{error}</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+'use client';
+
+import { UploadProgress } from '@/lib/upload';
+import { formatSize } from '@/lib/format';
+
+// Compact progress indicator for a list row. Live uploads don't know their
+// total yet, so they show the bytes sent with an indeterminate bar.
+export default function UploadProgressBar({ progress }: { progress: UploadProgress }) {
+  const percent = progress.total ? Math.round((progress.sent / progress.total) * 100) : null;
+
+  return (
+    <div className="w-24 space-y-1" title="Uploading">
+      <div className="h-1 rounded-full bg-gray-200 overflow-hidden">
+        <div
+          className={`h-full bg-gray-900 transition-all ${percent === null ? 'w-1/3 animate-pulse' : ''}`}
+          style={percent === null ? undefined : { width: `${percent}%` }}
+        />
+      </div>
+      <div className="text-[10px] text-gray-500 text-right">
+        {percent === null ? formatSize(progress.sent) : `${percent}%`}
+      </div>
+    </div>
+  );
+}
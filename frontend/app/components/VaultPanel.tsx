@@ -0,0 +1,279 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  changeVaultPassphrase,
+  createVault,
+  getVaultConfig,
+  removeVault,
+  setVaultSealsMetadata,
+  VaultStatus
+} from '@/lib/indexeddb';
+import { AUTO_LOCK_OPTIONS, MIN_PASSPHRASE_LENGTH, VaultError } from '@/lib/vault';
+
+interface VaultPanelProps {
+  status: Exclude<VaultStatus, 'locked'>;
+  onStatusChange: (status: VaultStatus) => void;
+  onLock: () => void;
+  autoLockMinutes: number; // 0 = never
+  onAutoLockMinutesChange: (minutes: number) => void;
+  disabled: boolean; // Re-encrypting while another tab records would fail its writes
+}
+
+// Form open below the vault controls
+type VaultForm = 'change' | 'remove' | null;
+
+const inputClassName = 'w-full px-2 py-1.5 text-sm text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent';
+const selectClassName = 'px-2 py-1 text-xs text-gray-700 bg-white border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent';
+const buttonClassName = 'px-3 py-1.5 bg-white text-gray-700 text-xs font-medium rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2';
+const primaryButtonClassName = 'px-3 py-1.5 bg-gray-900 text-white text-xs font-medium rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-gray-900 focus:ring-offset-2';
+
+// Passphrase encryption of the library: turning it on and off, locking,
+// auto-lock and changing the passphrase
+export default function VaultPanel({
+  status,
+  onStatusChange,
+  onLock,
+  autoLockMinutes,
+  onAutoLockMinutesChange,
+  disabled,
+}: VaultPanelProps) {
+  const [sealMetadata, setSealMetadata] = useState(true);
+  const [form, setForm] = useState<VaultForm>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  // Set while the library is being re-encrypted
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (status !== 'unlocked') return;
+    getVaultConfig()
+      .then((config) => {
+        if (config) setSealMetadata(config.sealMetadata);
+      })
+      .catch((err) => console.error('Failed to load encryption settings:', err));
+  }, [status]);
+
+  const resetForm = (next: VaultForm = null) => {
+    setForm(next);
+    setPassphrase('');
+    setNewPassphrase('');
+    setConfirmation('');
+    setError(null);
+  };
+
+  // Problem with the new passphrase, if any
+  const validateNewPassphrase = () => {
+    if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      return `Use at least ${MIN_PASSPHRASE_LENGTH} characters`;
+    }
+    if (newPassphrase !== confirmation) return 'Passphrases don\'t match';
+    return null;
+  };
+
+  // Run a re-encrypting operation with progress and error reporting;
+  // resolves whether it succeeded
+  const run = async (action: string, operation: () => Promise<void>, nextStatus: VaultStatus) => {
+    setError(null);
+    setProgress({ done: 0, total: 0 });
+    try {
+      await operation();
+      resetForm();
+      onStatusChange(nextStatus);
+      return true;
+    } catch (err) {
+      if (err instanceof VaultError && err.reason === 'passphrase') {
+        setError('Wrong passphrase');
+        setPassphrase('');
+      } else {
+        console.error(`Failed to ${action}:`, err);
+        setError(`Failed to ${action}`);
+      }
+      return false;
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const reportProgress = (done: number, total: number) => setProgress({ done, total });
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = validateNewPassphrase();
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    run('turn on encryption', () => createVault(newPassphrase, sealMetadata, reportProgress), 'unlocked');
+  };
+
+  const handleChange = (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = validateNewPassphrase();
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    run('change passphrase', () => changeVaultPassphrase(passphrase, newPassphrase, reportProgress), 'unlocked');
+  };
+
+  const handleRemove = (e: React.FormEvent) => {
+    e.preventDefault();
+    run('turn off encryption', () => removeVault(passphrase, reportProgress), 'off');
+  };
+
+  const handleSealMetadataChange = async (enabled: boolean) => {
+    setSealMetadata(enabled);
+    if (status !== 'unlocked') return;
+    const changed = await run('update encryption settings', () => setVaultSealsMetadata(enabled, reportProgress), 'unlocked');
+    if (!changed) setSealMetadata(!enabled);
+  };
+
+  const isBusy = progress !== null;
+  const summary = status === 'off'
+    ? 'Off'
+    : `On${autoLockMinutes > 0 ? ` · locks after ${autoLockMinutes} min` : ''}`;
+
+  const metadataCheckbox = (
+    <label className="flex items-center gap-2 text-sm text-gray-700">
+      <input
+        type="checkbox"
+        checked={sealMetadata}
+        onChange={(e) => handleSealMetadataChange(e.target.checked)}
+        disabled={isBusy || disabled}
+        className="w-4 h-4 accent-gray-900 cursor-pointer"
+      />
+      Also encrypt names, notes, comments and captions
+    </label>
+  );
+
+  const newPassphraseFields = (
+    <>
+      <input
+        type="password"
+        value={newPassphrase}
+        onChange={(e) => setNewPassphrase(e.target.value)}
+        placeholder="New passphrase"
+        autoComplete="new-password"
+        disabled={isBusy}
+        className={inputClassName}
+      />
+      <input
+        type="password"
+        value={confirmation}
+        onChange={(e) => setConfirmation(e.target.value)}
+        placeholder="Repeat new passphrase"
+        autoComplete="new-password"
+        disabled={isBusy}
+        className={inputClassName}
+      />
+    </>
+  );
+
+  const currentPassphraseField = (
+    <input
+      type="password"
+      value={passphrase}
+      onChange={(e) => setPassphrase(e.target.value)}
+      placeholder="Current passphrase"
+      autoComplete="current-password"
+      disabled={isBusy}
+      className={inputClassName}
+    />
+  );
+
+  return (
+    <details className="rounded-xl border border-gray-200 bg-white">
+      <summary className="flex items-center justify-between p-4 cursor-pointer select-none text-sm font-medium text-gray-500 uppercase tracking-wide">
+        <span>Encryption</span>
+        <span className="normal-case font-normal text-xs">{summary}</span>
+      </summary>
+
+      <div className="px-4 pb-4 space-y-3">
+        {status === 'off' ? (
+          <form onSubmit={handleCreate} className="space-y-3">
+            <p className="text-xs text-gray-500">
+              Encrypt recordings with a passphrase. It can&apos;t be recovered if forgotten, and
+              without it the recordings can&apos;t be opened.
+            </p>
+            <div className="grid gap-2 sm:grid-cols-2">{newPassphraseFields}</div>
+            {metadataCheckbox}
+            <button type="submit" disabled={isBusy || disabled || !newPassphrase} className={primaryButtonClassName}>
+              Turn on encryption
+            </button>
+          </form>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              <button onClick={onLock} disabled={isBusy} className={primaryButtonClassName}>
+                Lock now
+              </button>
+              <label className="flex items-center gap-2 text-xs text-gray-600">
+                Lock after
+                <select
+                  value={autoLockMinutes}
+                  onChange={(e) => onAutoLockMinutesChange(Number(e.target.value))}
+                  className={selectClassName}
+                >
+                  {AUTO_LOCK_OPTIONS.map((minutes) => (
+                    <option key={minutes} value={minutes}>
+                      {minutes === 0 ? 'Never' : `${minutes} minutes idle`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button
+                onClick={() => resetForm(form === 'change' ? null : 'change')}
+                disabled={isBusy || disabled}
+                className={buttonClassName}
+              >
+                Change passphrase…
+              </button>
+              <button
+                onClick={() => resetForm(form === 'remove' ? null : 'remove')}
+                disabled={isBusy || disabled}
+                className={buttonClassName}
+              >
+                Turn off…
+              </button>
+            </div>
+            {metadataCheckbox}
+
+            {form === 'change' && (
+              <form onSubmit={handleChange} className="space-y-2">
+                {currentPassphraseField}
+                <div className="grid gap-2 sm:grid-cols-2">{newPassphraseFields}</div>
+                <p className="text-xs text-gray-500">Every recording is re-encrypted with a new key.</p>
+                <button type="submit" disabled={isBusy || !passphrase || !newPassphrase} className={primaryButtonClassName}>
+                  Change passphrase
+                </button>
+              </form>
+            )}
+
+            {form === 'remove' && (
+              <form onSubmit={handleRemove} className="space-y-2">
+                {currentPassphraseField}
+                <p className="text-xs text-gray-500">Recordings are decrypted and stored unprotected.</p>
+                <button type="submit" disabled={isBusy || !passphrase} className={primaryButtonClassName}>
+                  Decrypt and turn off
+                </button>
+              </form>
+            )}
+          </>
+        )}
+
+        {disabled && !isBusy && (
+          <p className="text-xs text-gray-500">Encryption settings can&apos;t change while another tab is recording.</p>
+        )}
+        {progress && (
+          <p className="text-xs text-gray-500">
+            {progress.total > 0 ? `Re-encrypting… ${progress.done} of ${progress.total}` : 'Working…'}
+          </p>
+        )}
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+    </details>
+  );
+}
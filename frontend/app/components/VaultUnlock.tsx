@@ -0,0 +1,81 @@
+'use client';
+
+import { useState } from 'react';
+import { unlockVault } from '@/lib/indexeddb';
+import { VaultError } from '@/lib/vault';
+
+interface VaultUnlockProps {
+  onUnlocked: () => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 text-sm text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent';
+
+// Shown in place of the app while the vault is locked
+export default function VaultUnlock({ onUnlocked }: VaultUnlockProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  // Unlocking finishes an interrupted re-encryption, which can take a while
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isUnlocking) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await unlockVault(passphrase, (done, total) => setProgress({ done, total }));
+      onUnlocked();
+    } catch (err) {
+      if (err instanceof VaultError && err.reason === 'passphrase') {
+        setError('Wrong passphrase');
+        setPassphrase('');
+      } else {
+        console.error('Failed to unlock recordings:', err);
+        setError('Failed to unlock recordings');
+      }
+      setIsUnlocking(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6 md:p-8">
+      <div className="max-w-sm mx-auto mt-24 space-y-6">
+        <h1 className="text-2xl font-semibold text-gray-900">
+          Screen Recorder
+        </h1>
+
+        <form onSubmit={handleSubmit} className="p-4 space-y-3 bg-white border border-gray-200 rounded-xl">
+          <p className="text-sm text-gray-700">
+            Recordings are encrypted. Enter the passphrase to unlock them.
+          </p>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Passphrase"
+            autoComplete="current-password"
+            autoFocus
+            disabled={isUnlocking}
+            className={inputClassName}
+          />
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          {progress && progress.total > 0 && (
+            <p className="text-xs text-gray-500">
+              Finishing re-encryption… {progress.done} of {progress.total}
+            </p>
+          )}
+          <button
+            type="submit"
+            disabled={!passphrase || isUnlocking}
+            className="w-full px-4 py-2 bg-gray-900 text-white text-sm font-medium rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-gray-900 focus:ring-offset-2"
+          >
+            {isUnlocking ? 'Unlocking…' : 'Unlock'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
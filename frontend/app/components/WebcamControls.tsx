@@ -0,0 +1,102 @@
+'use client';
+
+import { WebcamCorner, WebcamOverlay, WebcamShape } from '@/lib/compositor';
+
+interface WebcamControlsProps {
+  overlay: WebcamOverlay;
+  onChange: (overlay: WebcamOverlay) => void;
+  showVisibilityToggle: boolean; // Only meaningful while recording
+}
+
+const CORNERS: { value: WebcamCorner; label: string }[] = [
+  { value: 'top-left', label: '↖' },
+  { value: 'top-right', label: '↗' },
+  { value: 'bottom-left', label: '↙' },
+  { value: 'bottom-right', label: '↘' },
+];
+
+const SIZES: { value: number; label: string }[] = [
+  { value: 0.15, label: 'S' },
+  { value: 0.2, label: 'M' },
+  { value: 0.3, label: 'L' },
+];
+
+const SHAPES: { value: WebcamShape; label: string }[] = [
+  { value: 'circle', label: 'Circle' },
+  { value: 'rectangle', label: 'Rectangle' },
+];
+
+// Segmented button used by each option group
+function OptionButton({
+  active,
+  onClick,
+  title,
+  children,
+}: {
+  active: boolean;
+  onClick: () => void;
+  title?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      title={title}
+      className={`px-2 py-1 text-xs font-medium rounded-md transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400 ${
+        active ? 'bg-gray-900 text-white' : 'text-gray-600 hover:bg-gray-100'
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+// Corner, size and shape of the webcam bubble; changes apply live
+export default function WebcamControls({
+  overlay,
+  onChange,
+  showVisibilityToggle,
+}: WebcamControlsProps) {
+  const update = (updates: Partial<WebcamOverlay>) => onChange({ ...overlay, ...updates });
+
+  return (
+    <div className="inline-flex flex-wrap items-center gap-3 px-3 py-2 bg-white border border-gray-200 rounded-lg text-xs text-gray-500">
+      <span className="font-medium uppercase tracking-wide">Camera</span>
+
+      {showVisibilityToggle && (
+        <OptionButton active={overlay.visible} onClick={() => update({ visible: !overlay.visible })}>
+          {overlay.visible ? 'Shown' : 'Hidden'}
+        </OptionButton>
+      )}
+
+      <div className="flex items-center gap-0.5">
+        {CORNERS.map(({ value, label }) => (
+          <OptionButton
+            key={value}
+            active={overlay.corner === value}
+            onClick={() => update({ corner: value })}
+            title={value.replace('-', ' ')}
+          >
+            {label}
+          </OptionButton>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-0.5">
+        {SIZES.map(({ value, label }) => (
+          <OptionButton key={value} active={overlay.size === value} onClick={() => update({ size: value })}>
+            {label}
+          </OptionButton>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-0.5">
+        {SHAPES.map(({ value, label }) => (
+          <OptionButton key={value} active={overlay.shape === value} onClick={() => update({ shape: value })}>
+            {label}
+          </OptionButton>
+        ))}
+      </div>
+    </div>
+  );
+}
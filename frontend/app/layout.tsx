@@ -1,9 +1,16 @@
-import type { Metadata } from 'next';
+import type { Metadata, Viewport } from 'next';
+import ServiceWorker from './components/ServiceWorker';
 import './globals.css';
 
 export const metadata: Metadata = {
   title: 'Screen Recorder',
   description: 'Record your screen and replay in the browser',
+  appleWebApp: { title: 'Recorder' },
+  icons: { apple: '/icon-192.png' },
+};
+
+export const viewport: Viewport = {
+  themeColor: '#111827',
 };
 
 export default function RootLayout({
@@ -15,6 +22,7 @@ export default function RootLayout({
     <html lang="en">
       <body className="bg-gray-50 text-gray-900 antialiased">
         {children}
+        <ServiceWorker />
       </body>
     </html>
   );
@@ -0,0 +1,21 @@
+import type { MetadataRoute } from 'next';
+
+// Web app manifest (served as /manifest.webmanifest), so the recorder can
+// be installed and opened in its own window
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'Screen Recorder',
+    short_name: 'Recorder',
+    description: 'Record your screen and replay in the browser',
+    start_url: '/',
+    scope: '/',
+    display: 'standalone',
+    background_color: '#f9fafb',
+    theme_color: '#111827',
+    icons: [
+      { src: '/icon-192.png', sizes: '192x192', type: 'image/png' },
+      { src: '/icon-512.png', sizes: '512x512', type: 'image/png' },
+      { src: '/icon-maskable-512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+    ],
+  };
+}
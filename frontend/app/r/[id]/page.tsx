@@ -0,0 +1,77 @@
+// Share page for an uploaded recording - Server Component reading the
+// upload record straight from the server's storage
+
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { getUpload } from '@/lib/uploadStore';
+import { formatDuration, formatSize } from '@/lib/format';
+import { buildChaptersVtt } from '@/lib/chapters';
+
+export const dynamic = 'force-dynamic';
+
+interface SharePageProps {
+  params: { id: string };
+}
+
+async function getSharedRecording(id: string) {
+  const record = await getUpload(id);
+  return record?.status === 'complete' && record.meta ? record : null;
+}
+
+export async function generateMetadata({ params }: SharePageProps): Promise<Metadata> {
+  const record = await getSharedRecording(params.id);
+  return { title: record ? `${record.meta!.name} - Screen Recorder` : 'Recording not found' };
+}
+
+export default async function SharedRecordingPage({ params }: SharePageProps) {
+  const record = await getSharedRecording(params.id);
+  if (!record) notFound();
+  const meta = record.meta!;
+
+  // Play only the trimmed range, using a media fragment
+  const fragment = meta.trimStart != null || meta.trimEnd != null
+    ? `#t=${meta.trimStart ?? 0}${meta.trimEnd != null ? `,${meta.trimEnd}` : ''}`
+    : '';
+  const chaptersTrack = meta.chapters?.length
+    ? `data:text/vtt;charset=utf-8,${encodeURIComponent(buildChaptersVtt(meta.chapters, meta.duration))}`
+    : null;
+
+  return (
+    <main className="min-h-screen bg-gray-50 p-6 md:p-8">
+      <div className="max-w-4xl mx-auto space-y-4">
+        <div className="space-y-1">
+          <h1 className="text-2xl font-semibold text-gray-900">{meta.name}</h1>
+          <p className="text-sm text-gray-500">
+            {new Date(meta.timestamp).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}
+            {' · '}{formatDuration(meta.duration)}
+            {' · '}{formatSize(meta.size)}
+          </p>
+        </div>
+
+        <div className="rounded-xl overflow-hidden bg-black aspect-video">
+          <video
+            src={`/api/recordings/${record.id}/video${fragment}`}
+            controls
+            preload="metadata"
+            className="w-full h-full"
+          >
+            {chaptersTrack && (
+              <track kind="chapters" src={chaptersTrack} srcLang="en" label="Chapters" default />
+            )}
+          </video>
+        </div>
+
+        {meta.description && (
+          <p className="text-sm text-gray-700 whitespace-pre-line">{meta.description}</p>
+        )}
+        {meta.tags && meta.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 text-xs text-gray-500">
+            {meta.tags.map(tag => (
+              <span key={tag} className="px-1.5 py-0.5 rounded bg-gray-100">#{tag}</span>
+            ))}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,152 @@
+// Live annotations drawn over the screen while recording. The layer keeps
+// strokes in normalised (0-1) coordinates and the compositor draws it on
+// every frame, so the marks end up in the recorded video.
+// Finished strokes fade out after a configurable delay.
+
+export type AnnotationTool = 'pen' | 'arrow' | 'rectangle' | 'highlighter' | 'spotlight';
+
+export interface AnnotationPoint {
+  x: number; // Fraction of the frame width
+  y: number; // Fraction of the frame height
+}
+
+interface Annotation {
+  tool: AnnotationTool;
+  color: string;
+  points: AnnotationPoint[];
+  finishedAt: number | null; // performance.now() when the stroke ended
+}
+
+export interface AnnotationLayer {
+  begin: (tool: AnnotationTool, color: string, point: AnnotationPoint) => void;
+  extend: (point: AnnotationPoint) => void;
+  end: () => void;
+  undo: () => void;
+  clear: () => void;
+  setFadeAfter: (seconds: number | null) => void;
+  draw: (ctx: CanvasRenderingContext2D) => void;
+}
+
+export const ANNOTATION_COLORS = ['#ef4444', '#f59e0b', '#22c55e', '#3b82f6', '#ffffff'];
+
+// Fade-out delays offered in the toolbar (null = keep until cleared)
+export const FADE_OPTIONS: (number | null)[] = [2, 5, 10, null];
+export const DEFAULT_FADE_AFTER = 5;
+
+// How long the fade itself takes (ms)
+const FADE_DURATION = 600;
+// A spotlight lasts this long regardless of the fade setting (ms)
+const SPOTLIGHT_DURATION = 1500;
+// Spotlight radius as a fraction of the frame width
+const SPOTLIGHT_RADIUS = 0.06;
+
+// Opacity of a stroke at `now`, or 0 once it has fully faded
+function opacityAt(annotation: Annotation, fadeAfterMs: number | null, now: number): number {
+  if (annotation.finishedAt === null) return 1;
+  const holdFor = annotation.tool === 'spotlight' ? SPOTLIGHT_DURATION : fadeAfterMs;
+  if (holdFor === null) return 1;
+  const fading = now - annotation.finishedAt - holdFor;
+  return fading <= 0 ? 1 : Math.max(0, 1 - fading / FADE_DURATION);
+}
+
+function drawArrowHead(ctx: CanvasRenderingContext2D, fromX: number, fromY: number, toX: number, toY: number) {
+  const angle = Math.atan2(toY - fromY, toX - fromX);
+  const size = ctx.lineWidth * 4;
+  ctx.beginPath();
+  ctx.moveTo(toX, toY);
+  ctx.lineTo(toX - size * Math.cos(angle - Math.PI / 6), toY - size * Math.sin(angle - Math.PI / 6));
+  ctx.lineTo(toX - size * Math.cos(angle + Math.PI / 6), toY - size * Math.sin(angle + Math.PI / 6));
+  ctx.closePath();
+  ctx.fill();
+}
+
+function drawAnnotation(ctx: CanvasRenderingContext2D, annotation: Annotation) {
+  const { width, height } = ctx.canvas;
+  const points = annotation.points.map(p => ({ x: p.x * width, y: p.y * height }));
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  ctx.strokeStyle = annotation.color;
+  ctx.fillStyle = annotation.color;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.lineWidth = Math.max(3, width * 0.003);
+
+  switch (annotation.tool) {
+    case 'highlighter':
+      ctx.globalAlpha *= 0.35;
+      ctx.lineWidth = Math.max(12, width * 0.015);
+      ctx.lineCap = 'butt';
+    // falls through - a highlighter is a wide translucent pen
+    case 'pen':
+      ctx.beginPath();
+      ctx.moveTo(first.x, first.y);
+      points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+      if (points.length === 1) ctx.lineTo(first.x + 0.1, first.y); // Dot
+      ctx.stroke();
+      break;
+    case 'arrow':
+      ctx.beginPath();
+      ctx.moveTo(first.x, first.y);
+      ctx.lineTo(last.x, last.y);
+      ctx.stroke();
+      if (first !== last) drawArrowHead(ctx, first.x, first.y, last.x, last.y);
+      break;
+    case 'rectangle':
+      ctx.strokeRect(first.x, first.y, last.x - first.x, last.y - first.y);
+      break;
+    case 'spotlight': {
+      // Dim everything except a circle around the click (even-odd fill)
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+      ctx.beginPath();
+      ctx.rect(0, 0, width, height);
+      ctx.arc(last.x, last.y, width * SPOTLIGHT_RADIUS, 0, Math.PI * 2);
+      ctx.fill('evenodd');
+      break;
+    }
+  }
+}
+
+export function createAnnotationLayer(fadeAfter: number | null = DEFAULT_FADE_AFTER): AnnotationLayer {
+  let annotations: Annotation[] = [];
+  let fadeAfterMs = fadeAfter === null ? null : fadeAfter * 1000;
+  let current: Annotation | null = null;
+
+  return {
+    begin(tool, color, point) {
+      current = { tool, color, points: [point], finishedAt: null };
+      annotations.push(current);
+    },
+    extend(point) {
+      if (!current) return;
+      // Shapes only need their two corners; freehand strokes keep every point
+      if (current.tool === 'pen' || current.tool === 'highlighter') current.points.push(point);
+      else current.points = [current.points[0], point];
+    },
+    end() {
+      if (current) current.finishedAt = performance.now();
+      current = null;
+    },
+    undo() {
+      if (current) current = null;
+      annotations.pop();
+    },
+    clear() {
+      current = null;
+      annotations = [];
+    },
+    setFadeAfter(seconds) {
+      fadeAfterMs = seconds === null ? null : seconds * 1000;
+    },
+    draw(ctx) {
+      const now = performance.now();
+      annotations = annotations.filter(a => opacityAt(a, fadeAfterMs, now) > 0);
+      for (const annotation of annotations) {
+        ctx.save();
+        ctx.globalAlpha = opacityAt(annotation, fadeAfterMs, now);
+        drawAnnotation(ctx, annotation);
+        ctx.restore();
+      }
+    },
+  };
+}
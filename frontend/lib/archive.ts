@@ -0,0 +1,197 @@
+// Library export/import as a portable ZIP archive:
+//   manifest.json          - format marker and one entry (metadata,
+//                            comments and captions) per recording
+//   recordings/<id>.<ext>  - the video blobs
+// Import validates the manifest (keeping only the metadata fields this app
+// knows), gives clashing IDs fresh ones and restores every recording through
+// saveVideo.
+
+import {
+  getAllRecordings,
+  getVideo,
+  saveVideo,
+  getComments,
+  saveComments,
+  getCaptions,
+  saveCaptions,
+  generateRecordingId,
+  CaptionCue,
+  RecordingComment,
+  RecordingMeta
+} from './indexeddb';
+import { createZip, readZip, ZipEntry } from './zip';
+import { isObject, readRecordingMeta } from './recordingMeta';
+
+const MANIFEST_NAME = 'manifest.json';
+const ARCHIVE_FORMAT = 'screen-recorder-library';
+const ARCHIVE_VERSION = 1;
+
+export interface ArchiveEntry {
+  meta: RecordingMeta;
+  file: string; // Path of the video inside the archive
+  comments?: RecordingComment[]; // Omitted when there are none
+  captions?: CaptionCue[];       // Likewise
+}
+
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number;
+  recordings: ArchiveEntry[];
+}
+
+export interface ImportResult {
+  imported: RecordingMeta[];
+  renamed: number; // Recordings given a new ID because theirs was taken
+}
+
+// File extension for a recording's MIME type, and back
+function extensionFor(type: string): string {
+  return type.startsWith('video/mp4') ? 'mp4' : 'webm';
+}
+
+function typeFor(path: string): string {
+  return path.endsWith('.mp4') ? 'video/mp4' : 'video/webm';
+}
+
+// Pack recordings (all of them when ids is null) into an archive
+export async function exportRecordings(ids: string[] | null): Promise<Blob> {
+  const all = await getAllRecordings();
+  const selected = ids ? all.filter(rec => ids.includes(rec.id)) : all;
+
+  const entries: ZipEntry[] = [];
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    recordings: [],
+  };
+
+  for (const meta of selected) {
+    const blob = await getVideo(meta.id);
+    if (!blob) continue;
+
+    const file = `recordings/${meta.id}.${extensionFor(blob.type)}`;
+    const comments = await getComments(meta.id);
+    const captions = await getCaptions(meta.id);
+    entries.push({ name: file, data: blob });
+    manifest.recordings.push({
+      meta,
+      file,
+      ...(comments.length > 0 && { comments }),
+      ...(captions.length > 0 && { captions }),
+    });
+  }
+
+  // Manifest first so tools listing the archive show it at the top
+  entries.unshift({
+    name: MANIFEST_NAME,
+    data: new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }),
+  });
+  return createZip(entries);
+}
+
+// Comments are optional extras, so malformed ones are dropped rather than
+// failing the whole import
+function readComments(value: unknown): RecordingComment[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((comment): comment is RecordingComment =>
+    isObject(comment) &&
+    typeof comment.id === 'string' &&
+    typeof comment.time === 'number' &&
+    typeof comment.text === 'string' &&
+    typeof comment.createdAt === 'number'
+  );
+}
+
+// Same for caption cues
+function readCaptions(value: unknown): CaptionCue[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((cue): cue is CaptionCue =>
+    isObject(cue) &&
+    typeof cue.id === 'string' &&
+    typeof cue.start === 'number' &&
+    typeof cue.end === 'number' &&
+    typeof cue.text === 'string'
+  );
+}
+
+// Check a parsed manifest's shape, throwing a readable error if it's wrong,
+// and rebuild it from the fields that passed
+function validateManifest(value: unknown, files: Map<string, Blob>): ArchiveManifest {
+  if (!isObject(value) || value.format !== ARCHIVE_FORMAT) {
+    throw new Error('This file is not a recording library export');
+  }
+  if (typeof value.version !== 'number' || value.version > ARCHIVE_VERSION) {
+    throw new Error('This export was made by a newer version of the app');
+  }
+  if (!Array.isArray(value.recordings)) {
+    throw new Error('The export manifest has no recordings list');
+  }
+
+  const recordings = value.recordings.map((entry: unknown, index: number): ArchiveEntry => {
+    const meta = isObject(entry) ? readRecordingMeta(entry.meta) : null;
+    if (!isObject(entry) || typeof entry.file !== 'string' || !meta) {
+      throw new Error(`Recording #${index + 1} in the export manifest is malformed`);
+    }
+    if (!files.has(entry.file)) {
+      throw new Error(`The export is missing the video for "${meta.name}"`);
+    }
+    return {
+      meta,
+      file: entry.file,
+      comments: readComments(entry.comments),
+      captions: readCaptions(entry.captions),
+    };
+  });
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: value.version,
+    exportedAt: typeof value.exportedAt === 'number' ? value.exportedAt : 0,
+    recordings,
+  };
+}
+
+// Restore recordings from an archive made by exportRecordings
+export async function importArchive(file: Blob): Promise<ImportResult> {
+  const files = await readZip(file);
+  const manifestBlob = files.get(MANIFEST_NAME);
+  if (!manifestBlob) throw new Error('The export has no manifest.json');
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await manifestBlob.text());
+  } catch {
+    throw new Error('The export manifest is not valid JSON');
+  }
+  const manifest = validateManifest(parsed, files);
+
+  // IDs already in the library, plus those handed out during this import
+  const taken = new Set((await getAllRecordings()).map(rec => rec.id));
+  const imported: RecordingMeta[] = [];
+  let renamed = 0;
+
+  for (const { meta, file: path, comments, captions } of manifest.recordings) {
+    let id = meta.id;
+    if (taken.has(id)) {
+      // generateRecordingId is time-based, so suffix it if the clock hasn't moved
+      const base = generateRecordingId();
+      id = base;
+      for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+      renamed++;
+    }
+    taken.add(id);
+
+    // Size is recomputed from the blob; everything else is carried over
+    const { id: _id, name, duration, size: _size, ...details } = meta;
+    // Archive entries carry no MIME type; restore it from the extension
+    const blob = new Blob([files.get(path)!], { type: typeFor(path) });
+    imported.push(await saveVideo(id, blob, duration, name, details));
+
+    if (comments?.length) await saveComments(id, comments);
+    if (captions?.length) await saveCaptions(id, captions);
+  }
+
+  return { imported, renamed };
+}
@@ -0,0 +1,130 @@
+// Per-source audio mixing for recordings. Each source (system audio, mic)
+// gets a GainNode for volume/mute and an AnalyserNode for its level meter,
+// and everything is summed into one MediaStreamDestination:
+//   source -> gain -> analyser -> destination
+
+const MIC_DEVICE_KEY = 'screenRecorder.micDevice';
+
+export type AudioSourceId = 'screen' | 'mic';
+
+export interface AudioSourceSettings {
+  volume: number;  // Linear gain, 0 to MAX_VOLUME
+  muted: boolean;
+}
+
+export type MixerSettings = Record<AudioSourceId, AudioSourceSettings>;
+
+export const DEFAULT_MIXER_SETTINGS: MixerSettings = {
+  screen: { volume: 1, muted: false },
+  mic: { volume: 1, muted: false },
+};
+
+// Sliders go a little past unity so quiet mics can be boosted
+export const MAX_VOLUME = 2;
+
+export const AUDIO_SOURCE_LABELS: Record<AudioSourceId, string> = {
+  screen: 'System audio',
+  mic: 'Microphone',
+};
+
+export interface AudioMixer {
+  stream: MediaStream;       // Mixed audio, ready to add to the recording
+  sources: AudioSourceId[];  // Sources actually present
+  setSource: (id: AudioSourceId, settings: AudioSourceSettings) => void;
+  getLevel: (id: AudioSourceId) => number; // 0-1, post-fader
+  stop: () => void;
+}
+
+// Levels below this read as silence on the meters (dBFS)
+const METER_FLOOR_DB = -60;
+// Gain changes ramp over this long to avoid clicks (seconds)
+const GAIN_RAMP = 0.02;
+
+interface Channel {
+  source: MediaStreamAudioSourceNode;
+  gain: GainNode;
+  analyser: AnalyserNode;
+  buffer: Float32Array<ArrayBuffer>;
+}
+
+// Build the mixing graph in an existing AudioContext. The caller owns the
+// context; stop() only disconnects what the mixer created.
+export function createAudioMixer(
+  audioContext: AudioContext,
+  inputs: Partial<Record<AudioSourceId, MediaStream>>,
+  settings: MixerSettings = DEFAULT_MIXER_SETTINGS
+): AudioMixer {
+  const destination = audioContext.createMediaStreamDestination();
+  const channels = new Map<AudioSourceId, Channel>();
+
+  const applySettings = (channel: Channel, next: AudioSourceSettings) => {
+    const target = next.muted ? 0 : Math.min(Math.max(next.volume, 0), MAX_VOLUME);
+    channel.gain.gain.setTargetAtTime(target, audioContext.currentTime, GAIN_RAMP);
+  };
+
+  for (const id of Object.keys(inputs) as AudioSourceId[]) {
+    const stream = inputs[id];
+    if (!stream || stream.getAudioTracks().length === 0) continue;
+
+    const source = audioContext.createMediaStreamSource(stream);
+    const gain = audioContext.createGain();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 1024;
+    source.connect(gain);
+    gain.connect(analyser);
+    analyser.connect(destination);
+
+    const channel = { source, gain, analyser, buffer: new Float32Array(analyser.fftSize) };
+    gain.gain.value = settings[id].muted ? 0 : settings[id].volume;
+    channels.set(id, channel);
+  }
+
+  return {
+    stream: destination.stream,
+    sources: Array.from(channels.keys()),
+    setSource(id, next) {
+      const channel = channels.get(id);
+      if (channel) applySettings(channel, next);
+    },
+    getLevel(id) {
+      const channel = channels.get(id);
+      if (!channel) return 0;
+      channel.analyser.getFloatTimeDomainData(channel.buffer);
+      let sum = 0;
+      for (let i = 0; i < channel.buffer.length; i++) sum += channel.buffer[i] * channel.buffer[i];
+      const rms = Math.sqrt(sum / channel.buffer.length);
+      const db = rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+      return Math.min(Math.max((db - METER_FLOOR_DB) / -METER_FLOOR_DB, 0), 1);
+    },
+    stop() {
+      channels.forEach(({ source, gain, analyser }) => {
+        source.disconnect();
+        gain.disconnect();
+        analyser.disconnect();
+      });
+      channels.clear();
+    },
+  };
+}
+
+// Microphones the browser knows about. Labels are empty until the page
+// has been granted microphone access at least once.
+export async function listMicrophones(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'audioinput');
+}
+
+// Chosen microphone, or null for the system default
+export function loadMicDeviceId(): string | null {
+  try {
+    return localStorage.getItem(MIC_DEVICE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function saveMicDeviceId(deviceId: string | null): void {
+  if (deviceId) localStorage.setItem(MIC_DEVICE_KEY, deviceId);
+  else localStorage.removeItem(MIC_DEVICE_KEY);
+}
@@ -0,0 +1,145 @@
+// Caption cues: import from WebVTT or SRT files, the editing operations
+// behind the captions editor (nudge, split, merge), overlap validation and
+// WebVTT output for the player's subtitle track.
+
+import type { CaptionCue } from './indexeddb';
+import { formatVttTime } from './chapters';
+
+// Length of a cue added at the playhead (seconds)
+export const DEFAULT_CUE_LENGTH = 2;
+// Step of the timing nudge buttons (seconds)
+export const NUDGE_STEP = 0.1;
+// Shortest cue nudging or splitting will leave behind (seconds)
+export const MIN_CUE_LENGTH = 0.2;
+
+export function createCue(start: number, end: number, text: string): CaptionCue {
+  return {
+    id: `cue-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    start,
+    end,
+    text,
+  };
+}
+
+export function sortCues(cues: CaptionCue[]): CaptionCue[] {
+  return [...cues].sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+// Index of the cue showing at `time`, or -1 between cues
+export function cueIndexAt(cues: CaptionCue[], time: number): number {
+  return cues.findIndex(cue => cue.start <= time && time < cue.end);
+}
+
+// Timestamp in WebVTT (01:02.500, 00:01:02.500) or SRT (00:01:02,500) form
+function parseTimestamp(value: string): number | null {
+  const match = /^(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})$/.exec(value.trim());
+  if (!match) return null;
+  const [, hours, minutes, seconds, fraction] = match;
+  return (
+    Number(hours ?? 0) * 3600 +
+    Number(minutes) * 60 +
+    Number(seconds) +
+    Number(fraction.padEnd(3, '0')) / 1000
+  );
+}
+
+// Parse a .vtt or .srt file. Both are blank-line separated blocks with a
+// "start --> end" timing line; headers, NOTE/STYLE blocks and SRT
+// sequence numbers have no timing line (or precede it) and are skipped.
+export function parseCaptions(text: string): CaptionCue[] {
+  const blocks = text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/);
+
+  const cues: CaptionCue[] = [];
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1 || /^(NOTE|STYLE|REGION)\b/.test(lines[0])) continue;
+
+    const [startPart, endPart = ''] = lines[timingIndex].split('-->');
+    // Cue settings (position, align...) follow the end time
+    const start = parseTimestamp(startPart);
+    const end = parseTimestamp(endPart.trim().split(/\s+/)[0]);
+    const cueText = lines.slice(timingIndex + 1).join('\n').trim();
+    if (start === null || end === null || end <= start || !cueText) continue;
+
+    cues.push(createCue(start, end, cueText));
+  }
+
+  if (cues.length === 0) throw new Error('No captions found in this file');
+  return sortCues(cues);
+}
+
+// Build a WebVTT subtitles track
+export function buildCaptionsVtt(cues: CaptionCue[]): string {
+  const blocks = sortCues(cues).map((cue, i) => {
+    // Cue text can't contain "-->" or blank lines
+    const text = cue.text.trim().replace(/-->/g, '->').replace(/\n\s*\n/g, '\n');
+    return `${i + 1}\n${formatVttTime(cue.start)} --> ${formatVttTime(cue.end)}\n${text}`;
+  });
+  return ['WEBVTT', ...blocks].join('\n\n') + '\n';
+}
+
+// Problems that should be fixed before saving, by cue ID. Expects the
+// cues sorted by start time.
+export function findCaptionProblems(cues: CaptionCue[]): Map<string, string> {
+  const problems = new Map<string, string>();
+  // Latest end among earlier cues: a long cue can overlap several after it
+  let previousEnd = -Infinity;
+  cues.forEach((cue) => {
+    if (cue.end <= cue.start) {
+      problems.set(cue.id, 'Ends before it starts');
+    } else if (cue.start < previousEnd) {
+      problems.set(cue.id, `Overlaps an earlier cue by ${(Math.min(previousEnd, cue.end) - cue.start).toFixed(1)}s`);
+    } else if (!cue.text.trim()) {
+      problems.set(cue.id, 'No text');
+    }
+    previousEnd = Math.max(previousEnd, cue.end);
+  });
+  return problems;
+}
+
+// Move one edge of a cue, or the whole cue, by `delta` seconds. Edges stop
+// MIN_CUE_LENGTH apart and the cue can't start before 0.
+export function nudgeCue(cue: CaptionCue, edge: 'start' | 'end' | 'both', delta: number): CaptionCue {
+  const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+  switch (edge) {
+    case 'start':
+      return { ...cue, start: round(Math.min(Math.max(cue.start + delta, 0), cue.end - MIN_CUE_LENGTH)) };
+    case 'end':
+      return { ...cue, end: round(Math.max(cue.end + delta, cue.start + MIN_CUE_LENGTH)) };
+    case 'both': {
+      const shift = Math.max(delta, -cue.start);
+      return { ...cue, start: round(cue.start + shift), end: round(cue.end + shift) };
+    }
+  }
+}
+
+// Split a cue in two at `time`, dividing its words between the halves.
+// Returns null if either half would be shorter than MIN_CUE_LENGTH.
+export function splitCue(cue: CaptionCue, time: number): [CaptionCue, CaptionCue] | null {
+  if (time - cue.start < MIN_CUE_LENGTH || cue.end - time < MIN_CUE_LENGTH) return null;
+
+  const words = cue.text.trim().split(/\s+/);
+  const half = Math.ceil(words.length / 2);
+  // A single word stays on both halves rather than leaving one empty
+  const first = words.length > 1 ? words.slice(0, half).join(' ') : cue.text;
+  const second = words.length > 1 ? words.slice(half).join(' ') : cue.text;
+
+  return [
+    { ...cue, end: time, text: first },
+    createCue(time, cue.end, second),
+  ];
+}
+
+// Join two cues into one spanning both
+export function mergeCues(first: CaptionCue, second: CaptionCue): CaptionCue {
+  return {
+    ...first,
+    start: Math.min(first.start, second.start),
+    end: Math.max(first.end, second.end),
+    text: `${first.text.trim()} ${second.text.trim()}`.trim(),
+  };
+}
@@ -0,0 +1,173 @@
+// Capture quality settings: resolution cap, frame rate, bitrates, codec and
+// maximum length. Persisted in localStorage and turned into the constraints
+// and MediaRecorder options used when a recording starts.
+
+import type { RecordingCapture } from './indexeddb';
+import { isObject } from './recordingMeta';
+import { ESTIMATED_BYTES_PER_SECOND } from './storage';
+
+const CAPTURE_SETTINGS_KEY = 'screenRecorder.capture';
+
+export interface CaptureSettings {
+  maxHeight: number | null;          // Resolution cap (frame height), null = native
+  frameRate: number;                 // Target frames per second
+  videoBitsPerSecond: number | null; // null = browser default
+  audioBitsPerSecond: number | null; // null = browser default
+  mimeType: string | null;           // Preferred container/codec, null = automatic
+  maxDurationSec: number;            // Recording stops automatically after this
+  countdownSec: number;              // Delay before capture starts, 0 = none
+}
+
+export const DEFAULT_CAPTURE_SETTINGS: CaptureSettings = {
+  maxHeight: null,
+  frameRate: 30,
+  videoBitsPerSecond: null,
+  audioBitsPerSecond: null,
+  mimeType: null,
+  maxDurationSec: 3 * 60,
+  countdownSec: 0,
+};
+
+export interface CapturePreset {
+  id: string;
+  label: string;
+  description: string;
+  // Max length, codec and countdown are left as the user set them
+  settings: Pick<CaptureSettings, 'maxHeight' | 'frameRate' | 'videoBitsPerSecond' | 'audioBitsPerSecond'>;
+}
+
+export const CAPTURE_PRESETS: CapturePreset[] = [
+  {
+    id: 'small',
+    label: 'Small file',
+    description: '720p, 15 fps, 1 Mbps',
+    settings: { maxHeight: 720, frameRate: 15, videoBitsPerSecond: 1_000_000, audioBitsPerSecond: 64_000 },
+  },
+  {
+    id: 'balanced',
+    label: 'Balanced',
+    description: '1080p, 30 fps, 2.5 Mbps',
+    settings: { maxHeight: 1080, frameRate: 30, videoBitsPerSecond: 2_500_000, audioBitsPerSecond: 128_000 },
+  },
+  {
+    id: 'high',
+    label: 'High quality',
+    description: 'Native, 60 fps, 8 Mbps',
+    settings: { maxHeight: null, frameRate: 60, videoBitsPerSecond: 8_000_000, audioBitsPerSecond: 192_000 },
+  },
+];
+
+// Options offered by the settings panel
+export const RESOLUTION_OPTIONS: (number | null)[] = [null, 2160, 1440, 1080, 720, 480];
+export const FRAME_RATE_OPTIONS = [15, 24, 30, 60];
+export const VIDEO_BITRATE_OPTIONS: (number | null)[] = [null, 1_000_000, 2_500_000, 5_000_000, 8_000_000, 16_000_000];
+export const AUDIO_BITRATE_OPTIONS: (number | null)[] = [null, 64_000, 128_000, 192_000];
+export const COUNTDOWN_OPTIONS = [0, 3, 5, 10];
+
+// Containers/codecs worth offering, in the automatic fallback order
+const CANDIDATE_MIME_TYPES = [
+  'video/webm;codecs=vp9',
+  'video/webm;codecs=vp8',
+  'video/webm;codecs=av01',
+  'video/webm;codecs=h264',
+  'video/webm',
+  'video/mp4;codecs=avc1',
+  'video/mp4',
+];
+
+const isPositive = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const isPositiveOrNull = (value: unknown) => value === null || isPositive(value);
+
+// Stored settings, with the default for any field that's missing or malformed
+export function loadCaptureSettings(): CaptureSettings {
+  try {
+    const stored = localStorage.getItem(CAPTURE_SETTINGS_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : null;
+    if (!isObject(parsed)) return DEFAULT_CAPTURE_SETTINGS;
+
+    const read = <K extends keyof CaptureSettings>(key: K, valid: (value: unknown) => boolean) =>
+      valid(parsed[key]) ? parsed[key] as CaptureSettings[K] : DEFAULT_CAPTURE_SETTINGS[key];
+    return {
+      maxHeight: read('maxHeight', isPositiveOrNull),
+      frameRate: read('frameRate', isPositive),
+      videoBitsPerSecond: read('videoBitsPerSecond', isPositiveOrNull),
+      audioBitsPerSecond: read('audioBitsPerSecond', isPositiveOrNull),
+      mimeType: read('mimeType', value => value === null || typeof value === 'string'),
+      maxDurationSec: read('maxDurationSec', isPositive),
+      countdownSec: read('countdownSec', value => value === 0 || isPositive(value)),
+    };
+  } catch {
+    return DEFAULT_CAPTURE_SETTINGS;
+  }
+}
+
+export function saveCaptureSettings(settings: CaptureSettings): void {
+  localStorage.setItem(CAPTURE_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+// The preset the settings currently match, if any
+export function matchPreset(settings: CaptureSettings): CapturePreset | null {
+  return CAPTURE_PRESETS.find(preset =>
+    (Object.keys(preset.settings) as (keyof CapturePreset['settings'])[])
+      .every(key => preset.settings[key] === settings[key])
+  ) ?? null;
+}
+
+type TypeSupportCheck = (type: string) => boolean;
+
+const browserTypeSupport: TypeSupportCheck = (type) =>
+  typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(type);
+
+// MIME types this browser's MediaRecorder can produce
+export function getSupportedMimeTypes(isTypeSupported = browserTypeSupport): string[] {
+  return CANDIDATE_MIME_TYPES.filter(type => isTypeSupported(type));
+}
+
+// The preferred MIME type if supported, otherwise the first supported one
+export function resolveMimeType(settings: CaptureSettings, isTypeSupported = browserTypeSupport): string {
+  if (settings.mimeType && isTypeSupported(settings.mimeType)) {
+    return settings.mimeType;
+  }
+  return getSupportedMimeTypes(isTypeSupported)[0] ?? 'video/webm';
+}
+
+// Video constraints for getDisplayMedia
+export function buildDisplayMediaVideo(settings: CaptureSettings): MediaTrackConstraints {
+  return {
+    frameRate: { ideal: settings.frameRate, max: settings.frameRate },
+    ...(settings.maxHeight !== null && { height: { max: settings.maxHeight } }),
+  };
+}
+
+export function buildRecorderOptions(settings: CaptureSettings, mimeType: string): MediaRecorderOptions {
+  return {
+    mimeType,
+    ...(settings.videoBitsPerSecond !== null && { videoBitsPerSecond: settings.videoBitsPerSecond }),
+    ...(settings.audioBitsPerSecond !== null && { audioBitsPerSecond: settings.audioBitsPerSecond }),
+  };
+}
+
+// Expected recording size per second, for the pre-record quota check
+export function estimateBytesPerSecond(settings: CaptureSettings): number {
+  if (settings.videoBitsPerSecond === null) return ESTIMATED_BYTES_PER_SECOND;
+  return (settings.videoBitsPerSecond + (settings.audioBitsPerSecond ?? 128_000)) / 8;
+}
+
+// What a recording was actually captured with, for its metadata
+export function describeCapture(
+  settings: CaptureSettings,
+  mimeType: string,
+  videoTrack: MediaStreamTrack | undefined
+): RecordingCapture {
+  const actual = videoTrack?.getSettings() ?? {};
+  return {
+    mimeType,
+    width: actual.width ?? null,
+    height: actual.height ?? null,
+    frameRate: actual.frameRate ? Math.round(actual.frameRate) : settings.frameRate,
+    videoBitsPerSecond: settings.videoBitsPerSecond,
+    audioBitsPerSecond: settings.audioBitsPerSecond,
+  };
+}
@@ -0,0 +1,40 @@
+// Chapter markers dropped while recording, and their WebVTT form.
+// Kept free of browser APIs so the share page can build the track on the server.
+
+import type { RecordingChapter } from './indexeddb';
+
+// Default title for the nth chapter (1-based)
+export function defaultChapterTitle(n: number): string {
+  return `Chapter ${n}`;
+}
+
+// Index of the chapter playing at `time`, or -1 before the first one
+export function chapterIndexAt(chapters: RecordingChapter[], time: number): number {
+  let index = -1;
+  chapters.forEach((chapter, i) => {
+    if (chapter.time <= time) index = i;
+  });
+  return index;
+}
+
+// WebVTT timestamp (HH:MM:SS.mmm)
+export function formatVttTime(seconds: number): string {
+  const ms = Math.round(Math.max(seconds, 0) * 1000);
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}.${String(ms % 1000).padStart(3, '0')}`;
+}
+
+// Build a WebVTT chapters track. Each chapter runs until the next one
+// starts; the last runs to the end of the recording.
+export function buildChaptersVtt(chapters: RecordingChapter[], duration: number): string {
+  const sorted = [...chapters].sort((a, b) => a.time - b.time);
+  const cues = sorted.map((chapter, i) => {
+    const end = Math.max(i + 1 < sorted.length ? sorted[i + 1].time : duration, chapter.time);
+    // Cue text can't contain "-->" or blank lines
+    const title = chapter.title.replace(/-->/g, '->').replace(/\s*\n\s*/g, ' ');
+    return `${i + 1}\n${formatVttTime(chapter.time)} --> ${formatVttTime(end)}\n${title}`;
+  });
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
@@ -0,0 +1,170 @@
+// Canvas compositor: draws the shared screen (or a cropped region of it)
+// plus overlays (webcam bubble, live annotations) into a canvas, and the canvas' captureStream() is what
+// gets recorded. Overlay settings are read every frame, so they can change
+// mid-recording.
+
+import { createTicker, waitForMediaEvent } from './media';
+import { AnnotationLayer } from './annotations';
+import { regionToPixels, CropRegion } from './region';
+
+export type WebcamCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+export type WebcamShape = 'circle' | 'rectangle';
+
+export interface WebcamOverlay {
+  visible: boolean;
+  corner: WebcamCorner;
+  size: number;        // Bubble width as a fraction of the output width
+  shape: WebcamShape;
+}
+
+export const DEFAULT_WEBCAM_OVERLAY: WebcamOverlay = {
+  visible: true,
+  corner: 'bottom-right',
+  size: 0.2,
+  shape: 'circle',
+};
+
+export interface Compositor {
+  stream: MediaStream; // Composited video track, ready for MediaRecorder
+  setWebcamOverlay: (overlay: WebcamOverlay) => void;
+  stop: () => void;
+}
+
+const DEFAULT_FRAME_RATE = 30;
+
+// Gap between the bubble and the frame edge, as a fraction of the output width
+const OVERLAY_MARGIN = 0.025;
+
+// Play a live stream in a detached <video> so frames can be drawn from it
+async function playStream(stream: MediaStream): Promise<HTMLVideoElement> {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  const loaded = waitForMediaEvent(video, 'loadedmetadata');
+  video.srcObject = stream;
+  await loaded;
+  await video.play();
+  return video;
+}
+
+// Draw the webcam bubble at its corner, centre-cropped to the bubble's shape
+function drawWebcam(
+  ctx: CanvasRenderingContext2D,
+  video: HTMLVideoElement,
+  overlay: WebcamOverlay
+) {
+  const { width, height } = ctx.canvas;
+  const margin = Math.round(width * OVERLAY_MARGIN);
+  const camAspect = video.videoWidth > 0 ? video.videoHeight / video.videoWidth : 3 / 4;
+  const bubbleWidth = Math.round(width * overlay.size);
+  const bubbleHeight = overlay.shape === 'circle' ? bubbleWidth : Math.round(bubbleWidth * camAspect);
+  const x = overlay.corner.endsWith('left') ? margin : width - margin - bubbleWidth;
+  const y = overlay.corner.startsWith('top') ? margin : height - margin - bubbleHeight;
+
+  let sourceWidth = video.videoWidth;
+  let sourceHeight = sourceWidth * (bubbleHeight / bubbleWidth);
+  if (sourceHeight > video.videoHeight) {
+    sourceHeight = video.videoHeight;
+    sourceWidth = sourceHeight * (bubbleWidth / bubbleHeight);
+  }
+  const sourceX = (video.videoWidth - sourceWidth) / 2;
+  const sourceY = (video.videoHeight - sourceHeight) / 2;
+
+  ctx.save();
+  ctx.beginPath();
+  if (overlay.shape === 'circle') {
+    ctx.arc(x + bubbleWidth / 2, y + bubbleHeight / 2, bubbleWidth / 2, 0, Math.PI * 2);
+  } else {
+    ctx.rect(x, y, bubbleWidth, bubbleHeight);
+  }
+  ctx.clip();
+  ctx.drawImage(video, sourceX, sourceY, sourceWidth, sourceHeight, x, y, bubbleWidth, bubbleHeight);
+  ctx.restore();
+
+  // Thin border so the bubble stands out from the screen content
+  ctx.lineWidth = Math.max(2, Math.round(width * 0.002));
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.stroke();
+}
+
+// Start compositing. The output canvas matches the screen's resolution, or
+// the crop region's size in screen pixels, and follows it when the shared
+// window is resized.
+export async function createCompositor(
+  screenStream: MediaStream,
+  webcamStream: MediaStream | null,
+  initialOverlay: WebcamOverlay = DEFAULT_WEBCAM_OVERLAY,
+  annotations: AnnotationLayer | null = null,
+  frameRate = DEFAULT_FRAME_RATE,
+  crop: CropRegion | null = null
+): Promise<Compositor> {
+  const screenVideo = await playStream(new MediaStream(screenStream.getVideoTracks()));
+  const webcamVideo = webcamStream ? await playStream(webcamStream) : null;
+  let overlay = initialOverlay;
+
+  const canvas = document.createElement('canvas');
+  let screenWidth = 0;
+  let screenHeight = 0;
+
+  // Size the canvas for the screen's current resolution
+  const fitCanvas = () => {
+    const width = screenVideo.videoWidth || screenWidth || 1920;
+    const height = screenVideo.videoHeight || screenHeight || 1080;
+    if (width === screenWidth && height === screenHeight) return;
+    screenWidth = width;
+    screenHeight = height;
+    if (crop) {
+      // Encoders want even dimensions
+      const region = regionToPixels(crop, width, height);
+      canvas.width = Math.max(region.width - (region.width % 2), 2);
+      canvas.height = Math.max(region.height - (region.height % 2), 2);
+    } else {
+      canvas.width = width;
+      canvas.height = height;
+    }
+  };
+  fitCanvas();
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  // The webcam only runs while its bubble is shown, so its light goes off
+  // when it's hidden
+  const setWebcamEnabled = (enabled: boolean) => {
+    webcamStream?.getVideoTracks().forEach(track => {
+      track.enabled = enabled;
+    });
+  };
+  setWebcamEnabled(overlay.visible);
+
+  const draw = () => {
+    fitCanvas();
+    if (crop) {
+      const source = regionToPixels(crop, screenWidth, screenHeight);
+      ctx.drawImage(screenVideo, source.x, source.y, source.width, source.height, 0, 0, canvas.width, canvas.height);
+    } else {
+      ctx.drawImage(screenVideo, 0, 0, canvas.width, canvas.height);
+    }
+    if (webcamVideo && overlay.visible && webcamVideo.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+      drawWebcam(ctx, webcamVideo, overlay);
+    }
+    annotations?.draw(ctx);
+  };
+
+  draw();
+  const stopTicker = createTicker(frameRate, draw);
+  const stream = canvas.captureStream(frameRate);
+
+  return {
+    stream,
+    setWebcamOverlay: (next) => {
+      if (next.visible !== overlay.visible) setWebcamEnabled(next.visible);
+      overlay = next;
+    },
+    stop: () => {
+      stopTicker();
+      stream.getTracks().forEach(track => track.stop());
+      screenVideo.srcObject = null;
+      if (webcamVideo) webcamVideo.srcObject = null;
+    },
+  };
+}
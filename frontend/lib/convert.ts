@@ -0,0 +1,171 @@
+// Convert recordings to MP4 (H.264/AAC) or animated GIF for tools that won't
+// play WebM inline. ffmpeg.wasm does the encoding in its own Web Worker. Its
+// core is copied into public/ffmpeg on install, so nothing is downloaded
+// from elsewhere. The service worker caches it on first use, and export
+// works offline from then on.
+
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+
+const CORE_BASE_URL = '/ffmpeg';
+
+export type ConvertFormat = 'mp4' | 'gif';
+
+export interface GifOptions {
+  frameRate: number; // Frames per second
+  width: number;     // Maximum width in pixels; height follows the aspect ratio
+}
+
+export const GIF_FRAME_RATES = [5, 10, 15, 24];
+export const GIF_WIDTHS = [320, 480, 640, 960];
+
+export const DEFAULT_GIF_OPTIONS: GifOptions = {
+  frameRate: 10,
+  width: 640,
+};
+
+export interface ConvertOptions {
+  gif?: GifOptions;
+  start?: number; // Section to convert (seconds); the whole recording by default
+  end?: number;
+  onProgress?: (progress: number) => void; // 0-1
+}
+
+// A conversion in progress
+export interface Conversion {
+  result: Promise<Blob>;
+  cancel: () => void;
+}
+
+export class ConversionCancelledError extends Error {
+  constructor() {
+    super('Conversion cancelled');
+    this.name = 'ConversionCancelledError';
+  }
+}
+
+const OUTPUT_TYPES: Record<ConvertFormat, string> = {
+  mp4: 'video/mp4',
+  gif: 'image/gif',
+};
+
+// Whether the service worker has cached the core, so export works offline
+export async function isConverterCached(): Promise<boolean> {
+  if (!('caches' in window)) return false;
+  return (await caches.match(`${CORE_BASE_URL}/ffmpeg-core.wasm`)) !== undefined;
+}
+
+// The worker and its 30 MB core are loaded once and kept for later exports
+let loading: Promise<FFmpeg> | null = null;
+
+function loadFFmpeg(): Promise<FFmpeg> {
+  if (!loading) {
+    loading = (async () => {
+      const { FFmpeg } = await import('@ffmpeg/ffmpeg');
+      const ffmpeg = new FFmpeg();
+      // Absolute URLs: the bundled import.meta.url isn't the page's
+      const base = new URL(`${CORE_BASE_URL}/`, window.location.href);
+      await ffmpeg.load({
+        classWorkerURL: new URL('worker.js', base).href,
+        coreURL: new URL('ffmpeg-core.js', base).href,
+        wasmURL: new URL('ffmpeg-core.wasm', base).href,
+      });
+      return ffmpeg;
+    })();
+    // Let the next export try again
+    loading.catch(() => {
+      loading = null;
+    });
+  }
+  return loading;
+}
+
+// ffmpeg arguments writing `output` in the given format
+function buildArgs(input: string, output: string, format: ConvertFormat, options: ConvertOptions): string[] {
+  const section = [
+    ...(options.start ? ['-ss', String(options.start)] : []),
+    ...(options.end !== undefined ? ['-to', String(options.end)] : []),
+  ];
+
+  if (format === 'mp4') {
+    return [
+      ...section,
+      '-i', input,
+      // H.264 needs even dimensions; yuv420p is what players expect
+      '-vf', 'scale=trunc(iw/2)*2:trunc(ih/2)*2',
+      '-c:v', 'libx264',
+      '-preset', 'veryfast',
+      '-crf', '23',
+      '-pix_fmt', 'yuv420p',
+      '-c:a', 'aac',
+      '-b:a', '128k',
+      // Index up front so the file can play before it's fully loaded
+      '-movflags', '+faststart',
+      output,
+    ];
+  }
+
+  // One pass: build a palette from the clip, then map frames onto it.
+  // Never scaled up past the recording's own width.
+  const { frameRate, width } = options.gif ?? DEFAULT_GIF_OPTIONS;
+  return [
+    ...section,
+    '-i', input,
+    '-vf', `fps=${frameRate},scale='min(${width},iw)':-1:flags=lanczos,split[a][b];[a]palettegen[p];[b][p]paletteuse`,
+    '-loop', '0',
+    output,
+  ];
+}
+
+// Convert a recording blob. cancel() stops the encoder straight away and
+// rejects `result` with ConversionCancelledError.
+export function convertRecording(blob: Blob, format: ConvertFormat, options: ConvertOptions = {}): Conversion {
+  let cancelled = false;
+  let ffmpeg: FFmpeg | null = null;
+
+  const run = async () => {
+    const instance = await loadFFmpeg();
+    if (cancelled) throw new ConversionCancelledError();
+    ffmpeg = instance;
+
+    const input = blob.type.startsWith('video/mp4') ? 'input.mp4' : 'input.webm';
+    const output = `output.${format}`;
+    // ffmpeg's own fraction is of the whole input, so measure a section by
+    // the time encoded so far (reported in microseconds)
+    const length = options.end !== undefined ? options.end - (options.start ?? 0) : 0;
+    const handleProgress = ({ progress, time }: { progress: number; time: number }) => {
+      const fraction = length > 0 ? time / 1_000_000 / length : progress;
+      options.onProgress?.(Math.min(Math.max(fraction, 0), 1));
+    };
+    instance.on('progress', handleProgress);
+
+    try {
+      await instance.writeFile(input, new Uint8Array(await blob.arrayBuffer()));
+      const exitCode = await instance.exec(buildArgs(input, output, format, options));
+      if (exitCode !== 0) throw new Error(`Conversion failed (ffmpeg exited with code ${exitCode})`);
+      const data = await instance.readFile(output);
+      return new Blob([data as Uint8Array<ArrayBuffer>], { type: OUTPUT_TYPES[format] });
+    } catch (err) {
+      throw cancelled ? new ConversionCancelledError() : err;
+    } finally {
+      // A terminated worker has nothing left to clean up
+      if (!cancelled) {
+        instance.off('progress', handleProgress);
+        await Promise.all([input, output].map(path => instance.deleteFile(path).catch(() => {})));
+      }
+    }
+  };
+
+  return {
+    result: run(),
+    cancel: () => {
+      if (cancelled) return;
+      cancelled = true;
+      // The encoder can't be interrupted mid-run; drop the worker instead
+      // and load a fresh one for the next export
+      if (ffmpeg) {
+        ffmpeg.terminate();
+        loading = null;
+      }
+    },
+  };
+}
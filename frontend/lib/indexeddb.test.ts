@@ -0,0 +1,104 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { getAllRecordings, getThumbnails, getVideo, RecordingMeta } from './indexeddb';
+
+const DB_NAME = 'ScreenRecorderDB';
+
+// Open the database at a version, creating stores in the upgrade
+function openAt(version: number | undefined, upgrade?: (db: IDBDatabase) => void): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, version);
+    request.onupgradeneeded = () => upgrade?.(request.result);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// A v1/v2 database: everything in the single `recordings` store
+async function seedLegacy(version: 1 | 2, entries: [string, unknown][]) {
+  const db = await openAt(version, (upgradeDb) => upgradeDb.createObjectStore('recordings'));
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction('recordings', 'readwrite');
+    const store = transaction.objectStore('recordings');
+    entries.forEach(([key, value]) => store.put(value, key));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+  db.close();
+}
+
+const legacyMeta = (id: string, timestamp: number): RecordingMeta => ({
+  id,
+  name: `Recording ${timestamp}`,
+  timestamp,
+  duration: 12,
+  size: 4,
+});
+
+const blobText = (blob: Blob | null) => blob?.text();
+
+describe('legacy store migration', () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+  });
+
+  it.each([1, 2] as const)('moves a v%i library into the current stores', async (version) => {
+    await seedLegacy(version, [
+      ['recording-1', new Blob(['first'], { type: 'video/webm' })],
+      ['recording-1-meta', legacyMeta('recording-1', 1000)],
+      ['recording-1-thumbs', { poster: new Blob(['p1']), sprite: new Blob(['s1']), frameCount: 10 }],
+      ['recording-2', new Blob(['second'], { type: 'video/webm' })],
+      ['recording-2-meta', legacyMeta('recording-2', 2000)],
+    ]);
+
+    const recordings = await getAllRecordings();
+    expect(recordings.map(rec => rec.id)).toEqual(['recording-2', 'recording-1']);
+    expect(recordings[1]).toEqual(legacyMeta('recording-1', 1000));
+
+    expect(await blobText(await getVideo('recording-1'))).toBe('first');
+    expect(await blobText(await getVideo('recording-2'))).toBe('second');
+
+    const thumbnails = await getThumbnails('recording-1');
+    expect(thumbnails?.frameCount).toBe(10);
+    expect(await thumbnails?.poster.text()).toBe('p1');
+    expect(await getThumbnails('recording-2')).toBeNull();
+  });
+
+  it('drops the legacy store and creates the indexes', async () => {
+    await seedLegacy(2, [['recording-1-meta', legacyMeta('recording-1', 1000)]]);
+    await getAllRecordings();
+
+    const db = await openAt(undefined);
+    try {
+      expect(db.objectStoreNames.contains('recordings')).toBe(false);
+      for (const store of ['blobs', 'meta', 'thumbnails', 'sessions', 'chunks', 'comments', 'captions', 'settings']) {
+        expect(db.objectStoreNames.contains(store)).toBe(true);
+      }
+
+      const metaStore = db.transaction('meta', 'readonly').objectStore('meta');
+      expect(Array.from(metaStore.indexNames).sort()).toEqual(
+        ['duration', 'folder', 'name', 'size', 'tags', 'timestamp']
+      );
+      expect(metaStore.index('tags').multiEntry).toBe(true);
+    } finally {
+      db.close();
+    }
+  });
+
+  it('takes the ID from the key when legacy metadata lacks one', async () => {
+    const { id: _id, ...withoutId } = legacyMeta('recording-1', 1000);
+    await seedLegacy(1, [['recording-1-meta', withoutId]]);
+
+    const recordings = await getAllRecordings();
+    expect(recordings).toEqual([legacyMeta('recording-1', 1000)]);
+  });
+
+  it('opens a fresh database with no legacy store', async () => {
+    expect(await getAllRecordings()).toEqual([]);
+
+    const db = await openAt(undefined);
+    expect(db.objectStoreNames.contains('recordings')).toBe(false);
+    db.close();
+  });
+});
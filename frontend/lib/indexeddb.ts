@@ -4,9 +4,41 @@
 // 2. LocalStorage only stores strings (would need base64 encoding)
 // 3. IndexedDB can store binary data (Blobs) directly
 
+import { fixWebmMetadata } from './webm';
+import { broadcastLibraryChange, broadcastVaultChange } from './tabSync';
+import {
+  createVaultConfig,
+  exportKeys,
+  forgetKeys,
+  hasKeys,
+  isSealed,
+  isSealedAsConfigured,
+  openBlob,
+  openJson,
+  sealBlob,
+  sealJson,
+  unlockKeys,
+  VaultError,
+  type SealedValue,
+  type VaultConfig,
+} from './vault';
+
 const DB_NAME = 'ScreenRecorderDB';
-const STORE_NAME = 'recordings';
-const DB_VERSION = 1;
+const BLOB_STORE_NAME = 'blobs';
+const META_STORE_NAME = 'meta';
+const THUMB_STORE_NAME = 'thumbnails';
+const SESSION_STORE_NAME = 'sessions';
+const CHUNK_STORE_NAME = 'chunks';
+const COMMENT_STORE_NAME = 'comments';
+const CAPTION_STORE_NAME = 'captions';
+const SETTINGS_STORE_NAME = 'settings';
+const DB_VERSION = 7;
+
+// v1/v2 kept blobs, metadata (`${id}-meta`) and thumbnails (`${id}-thumbs`)
+// in this single store; v3 migrates them out and drops it
+const LEGACY_STORE_NAME = 'recordings';
+const LEGACY_META_SUFFIX = '-meta';
+const LEGACY_THUMBS_SUFFIX = '-thumbs';
 
 // Recording metadata type
 export interface RecordingMeta {
@@ -15,6 +47,174 @@ export interface RecordingMeta {
   timestamp: number; // Unix timestamp when recorded
   duration: number;  // Recording duration in seconds
   size: number;      // File size in bytes
+  trimStart?: number; // Non-destructive trim in point in seconds
+  trimEnd?: number;   // Non-destructive trim out point in seconds
+  pinned?: boolean;   // Exempt from automatic retention cleanup
+  tags?: string[];    // Free-form labels for filtering
+  folder?: string;    // Optional folder/project the recording belongs to
+  description?: string; // Free-text notes, included in search
+  upload?: RecordingUpload; // Copy on the server, if it has been shared
+  chapters?: RecordingChapter[]; // Markers dropped while recording, by time
+  capture?: RecordingCapture; // Quality settings the recording was made with
+}
+
+// Capture settings a recording was made with (see lib/capture.ts)
+export interface RecordingCapture {
+  mimeType: string;
+  width: number | null;     // Actual frame size reported by the video track
+  height: number | null;
+  frameRate: number | null;
+  videoBitsPerSecond: number | null; // Requested bitrates, null = browser default
+  audioBitsPerSecond: number | null;
+}
+
+// Named section start, dropped while recording
+export interface RecordingChapter {
+  time: number;  // Elapsed recording time in seconds
+  title: string;
+}
+
+// Server upload of a recording (see lib/upload.ts)
+export interface RecordingUpload {
+  id: string;         // Upload ID; the share link is /r/<id>
+  complete: boolean;  // False while (or if) the upload was interrupted
+  live?: boolean;     // Sent chunk by chunk while recording
+}
+
+// Poster and hover-scrub sprite, stored by recording ID
+export interface RecordingThumbnails {
+  poster: Blob;        // Single JPEG frame for the list row
+  sprite: Blob;        // Horizontal JPEG strip of evenly spaced frames
+  frameCount: number;  // Number of frames in the sprite
+}
+
+// Review note pinned to a moment in a recording
+export interface RecordingComment {
+  id: string;        // Unique within the recording
+  time: number;      // Playback position in seconds
+  text: string;
+  createdAt: number; // Unix timestamp when the note was written
+}
+
+// Subtitle cue shown over the player and exported as WebVTT
+export interface CaptionCue {
+  id: string;    // Unique within the recording
+  start: number; // Seconds
+  end: number;   // Seconds
+  text: string;  // May span several lines
+}
+
+// Recording in progress - chunks are persisted as they arrive so a crash
+// or reload doesn't lose the capture
+export interface PendingRecording {
+  id: string;         // ID the recording will be saved under
+  mimeType: string;   // MIME type the chunks were recorded with
+  startedAt: number;  // Unix timestamp when recording started
+  updatedAt: number;  // Unix timestamp of the last persisted chunk
+  duration: number;   // Elapsed recording time in seconds at the last chunk
+  chunkCount: number; // Number of chunks persisted so far
+  size: number;       // Total bytes persisted so far
+  chapters?: RecordingChapter[]; // Markers dropped so far
+  capture?: RecordingCapture;    // Settings the recording was started with
+}
+
+// With the vault on, blobs are stored as SealedValues, and so is metadata if
+// it seals that too. Sealed metadata leaves readable only what the
+// timestamp index and storage totals need.
+interface SealedRecordingMeta extends Pick<RecordingMeta, 'id' | 'timestamp' | 'duration' | 'size'> {
+  sealed: SealedValue;
+}
+
+type StoredRecordingMeta = RecordingMeta | SealedRecordingMeta;
+
+interface StoredThumbnails extends Omit<RecordingThumbnails, 'poster' | 'sprite'> {
+  poster: Blob | SealedValue;
+  sprite: Blob | SealedValue;
+}
+
+interface StoredPendingRecording extends Omit<PendingRecording, 'chapters'> {
+  chapters?: (RecordingChapter | SealedValue)[]; // Sealed one by one as they're added
+}
+
+// Indexes on the meta store; `tags` is multiEntry so each tag is a key (v4)
+const META_INDEXES: [string, IDBIndexParameters][] = [
+  ['timestamp', {}],
+  ['name', {}],
+  ['duration', {}],
+  ['size', {}],
+  ['tags', { multiEntry: true }],
+  ['folder', {}],
+];
+
+// Create the current stores and indexes (no-op for those that already exist)
+function createStores(db: IDBDatabase, transaction: IDBTransaction) {
+  // Video blobs, keyed by recording ID
+  if (!db.objectStoreNames.contains(BLOB_STORE_NAME)) {
+    db.createObjectStore(BLOB_STORE_NAME);
+  }
+  // Metadata, queryable by date, name, duration, size, tag and folder
+  const metaStore = db.objectStoreNames.contains(META_STORE_NAME)
+    ? transaction.objectStore(META_STORE_NAME)
+    : db.createObjectStore(META_STORE_NAME, { keyPath: 'id' });
+  for (const [name, options] of META_INDEXES) {
+    if (!metaStore.indexNames.contains(name)) {
+      metaStore.createIndex(name, name, options);
+    }
+  }
+  // Thumbnails, keyed by recording ID
+  if (!db.objectStoreNames.contains(THUMB_STORE_NAME)) {
+    db.createObjectStore(THUMB_STORE_NAME);
+  }
+  // In-progress sessions and their chunks, keyed by [id, index]
+  if (!db.objectStoreNames.contains(SESSION_STORE_NAME)) {
+    db.createObjectStore(SESSION_STORE_NAME, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(CHUNK_STORE_NAME)) {
+    db.createObjectStore(CHUNK_STORE_NAME);
+  }
+  // Comment lists, keyed by recording ID (v5)
+  if (!db.objectStoreNames.contains(COMMENT_STORE_NAME)) {
+    db.createObjectStore(COMMENT_STORE_NAME);
+  }
+  // Caption cue lists, keyed by recording ID (v6)
+  if (!db.objectStoreNames.contains(CAPTION_STORE_NAME)) {
+    db.createObjectStore(CAPTION_STORE_NAME);
+  }
+  // Settings localStorage can't hold, e.g. file system handles (v7)
+  if (!db.objectStoreNames.contains(SETTINGS_STORE_NAME)) {
+    db.createObjectStore(SETTINGS_STORE_NAME);
+  }
+}
+
+// Move every entry of the legacy single store into the v3 stores, then
+// delete it. Runs inside the versionchange transaction, so a failure rolls
+// the whole upgrade back and leaves the v1/v2 data untouched.
+function migrateLegacyStore(db: IDBDatabase, transaction: IDBTransaction) {
+  const legacyStore = transaction.objectStore(LEGACY_STORE_NAME);
+  const blobStore = transaction.objectStore(BLOB_STORE_NAME);
+  const metaStore = transaction.objectStore(META_STORE_NAME);
+  const thumbStore = transaction.objectStore(THUMB_STORE_NAME);
+  const cursorRequest = legacyStore.openCursor();
+
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) {
+      db.deleteObjectStore(LEGACY_STORE_NAME);
+      return;
+    }
+
+    const key = String(cursor.key);
+    if (key.endsWith(LEGACY_META_SUFFIX)) {
+      // v1 metadata always carries its ID, but fall back to the key to be safe
+      const id = key.slice(0, -LEGACY_META_SUFFIX.length);
+      metaStore.put({ ...(cursor.value as RecordingMeta), id });
+    } else if (key.endsWith(LEGACY_THUMBS_SUFFIX)) {
+      thumbStore.put(cursor.value, key.slice(0, -LEGACY_THUMBS_SUFFIX.length));
+    } else {
+      blobStore.put(cursor.value, key);
+    }
+    cursor.continue();
+  };
 }
 
 // Open or create the IndexedDB database
@@ -22,11 +222,16 @@ function openDB(): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
     
-    // Create object store on first run or version upgrade
+    // Create object stores on first run or version upgrade
     request.onupgradeneeded = () => {
       const db = request.result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME);
+      const transaction = request.transaction;
+      if (!transaction) return;
+      createStores(db, transaction);
+      
+      // v3: split the v1/v2 single store into blobs, meta and thumbnails
+      if (db.objectStoreNames.contains(LEGACY_STORE_NAME)) {
+        migrateLegacyStore(db, transaction);
       }
     };
     
@@ -51,81 +256,469 @@ export function generateDefaultName(): string {
   return `Recording – ${timeStr}`;
 }
 
-// Save video blob to IndexedDB with metadata
+// Read one value from a store
+async function readValue<T>(storeName: string, key: IDBValidKey): Promise<T | undefined> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readonly');
+    const request = transaction.objectStore(storeName).get(key);
+    
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    transaction.oncomplete = () => db.close();
+  });
+}
+
+// Overwrite a value, unless it was deleted since it was read
+async function replaceValue(storeName: string, key: IDBValidKey, value: unknown): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    
+    const getRequest = store.getKey(key);
+    getRequest.onsuccess = () => {
+      if (getRequest.result === undefined) return;
+      if (store.keyPath) store.put(value);
+      else store.put(value, key);
+    };
+    
+    transaction.oncomplete = () => {
+      db.close();
+      resolve();
+    };
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Read-modify-writes of one record can't share a transaction with the
+// encryption in between, so each record's run one after another
+const pendingUpdates = new Map<string, Promise<unknown>>();
+
+function queueUpdate<T>(key: string, update: () => Promise<T>): Promise<T> {
+  const previous = pendingUpdates.get(key) ?? Promise.resolve();
+  const next = previous.catch(() => {}).then(update);
+  pendingUpdates.set(key, next);
+  next.finally(() => {
+    if (pendingUpdates.get(key) === next) pendingUpdates.delete(key);
+  }).catch(() => {});
+  return next;
+}
+
+async function sealMeta(meta: RecordingMeta, config: VaultConfig | null): Promise<StoredRecordingMeta> {
+  const sealed = await sealJson(meta, config);
+  if (!isSealed(sealed)) return meta;
+  const { id, timestamp, duration, size } = meta;
+  return { id, timestamp, duration, size, sealed };
+}
+
+function openMeta(stored: StoredRecordingMeta): Promise<RecordingMeta> {
+  return 'sealed' in stored ? openJson<RecordingMeta>(stored.sealed) : Promise.resolve(stored);
+}
+
+async function openSession(stored: StoredPendingRecording): Promise<PendingRecording> {
+  if (!stored.chapters) return stored as PendingRecording;
+  const chapters = await Promise.all(stored.chapters.map(chapter => openJson(chapter)));
+  return { ...stored, chapters };
+}
+
+// Save video blob to IndexedDB with metadata.
+// `details` restores extra fields (e.g. timestamp, tags) when importing.
 export async function saveVideo(
   id: string, 
   blob: Blob, 
   duration: number,
-  name?: string
+  name?: string,
+  details?: Omit<Partial<RecordingMeta>, 'id' | 'name' | 'duration' | 'size'>
 ): Promise<RecordingMeta> {
-  const db = await openDB();
+  // Add the duration and cues MediaRecorder leaves out so the player can seek
+  const seekableBlob = await fixWebmMetadata(blob);
   const meta: RecordingMeta = {
     id,
     name: name || generateDefaultName(),
     timestamp: Date.now(),
+    ...details,
     duration,
-    size: blob.size,
+    size: seekableBlob.size,
   };
+  const config = await getVaultConfig();
+  const storedBlob = await sealBlob(seekableBlob, config);
+  const storedMeta = await sealMeta(meta, config);
+  const db = await openDB();
   
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
+    const transaction = db.transaction([BLOB_STORE_NAME, META_STORE_NAME], 'readwrite');
     
     // Store both the blob and its metadata
-    store.put(blob, id);
-    store.put(meta, `${id}-meta`);
+    transaction.objectStore(BLOB_STORE_NAME).put(storedBlob, id);
+    transaction.objectStore(META_STORE_NAME).put(storedMeta);
     
     transaction.oncomplete = () => {
       db.close();
+      broadcastLibraryChange({ type: 'saved', id });
       resolve(meta);
     };
     transaction.onerror = () => reject(transaction.error);
   });
 }
 
-// Update recording metadata (for renaming)
-export async function updateRecordingMeta(
+// User-editable metadata fields
+export type EditableRecordingMeta = Pick<
+  RecordingMeta,
+  'name' | 'trimStart' | 'trimEnd' | 'pinned' | 'tags' | 'folder' | 'description' | 'upload' | 'chapters'
+>;
+
+// Update recording metadata (renaming, trim points, pinning, library details, upload state)
+export function updateRecordingMeta(
   id: string, 
-  updates: Partial<Pick<RecordingMeta, 'name'>>
+  updates: Partial<EditableRecordingMeta>
 ): Promise<RecordingMeta | null> {
-  const db = await openDB();
+  return queueUpdate(id, async () => {
+    const config = await getVaultConfig();
+    const existingMeta = await readValue<StoredRecordingMeta>(META_STORE_NAME, id);
+    if (!existingMeta) return null;
+    
+    // Merge updates with existing metadata
+    const updatedMeta: RecordingMeta = { ...(await openMeta(existingMeta)), ...updates };
+    await replaceValue(META_STORE_NAME, id, await sealMeta(updatedMeta, config));
+    broadcastLibraryChange({ type: 'updated', id });
+    return updatedMeta;
+  });
+}
+
+// Section of the old video a replacement keeps, in seconds
+export interface KeptSection {
+  start: number;
+  end: number;
+}
+
+// Where a moment of the old video lands in the replacement, or null if it was cut
+function rebaseTime(time: number, kept: KeptSection): number | null {
+  return time >= kept.start && time <= kept.end ? time - kept.start : null;
+}
+
+function rebaseChapters(chapters: RecordingChapter[], kept: KeptSection): RecordingChapter[] {
+  return chapters.flatMap(chapter => {
+    const time = rebaseTime(chapter.time, kept);
+    return time === null ? [] : [{ ...chapter, time }];
+  });
+}
+
+function rebaseComments(comments: RecordingComment[], kept: KeptSection): RecordingComment[] {
+  return comments.flatMap(comment => {
+    const time = rebaseTime(comment.time, kept);
+    return time === null ? [] : [{ ...comment, time }];
+  });
+}
+
+// Cues partly cut off are shortened to what's left
+function rebaseCaptions(cues: CaptionCue[], kept: KeptSection): CaptionCue[] {
+  return cues.flatMap(cue => {
+    const start = Math.max(cue.start, kept.start) - kept.start;
+    const end = Math.min(cue.end, kept.end) - kept.start;
+    return end > start ? [{ ...cue, start, end }] : [];
+  });
+}
+
+// Replace a recording's video blob with a section of it (e.g. after applying
+// a trim). Size and duration are updated, the now-baked-in trim points
+// cleared, and chapters, comments and captions moved onto the new timeline;
+// those in the part that was cut are dropped.
+export function replaceVideo(
+  id: string,
+  blob: Blob,
+  duration: number,
+  kept: KeptSection
+): Promise<RecordingMeta | null> {
+  return queueUpdate(id, async () => {
+    const seekableBlob = await fixWebmMetadata(blob);
+    const config = await getVaultConfig();
+    const existingMeta = await readValue<StoredRecordingMeta>(META_STORE_NAME, id);
+    if (!existingMeta) return null;
+    
+    // The uploaded copy (if any) is of the old content, so forget it too
+    const { trimStart: _trimStart, trimEnd: _trimEnd, upload: _upload, chapters, ...rest } = await openMeta(existingMeta);
+    const updatedMeta: RecordingMeta = {
+      ...rest,
+      duration,
+      size: seekableBlob.size,
+      ...(chapters && { chapters: rebaseChapters(chapters, kept) }),
+    };
+    const storedBlob = await sealBlob(seekableBlob, config);
+    const storedMeta = await sealMeta(updatedMeta, config);
+    const db = await openDB();
+    
+    const replaced = await new Promise<boolean>((resolve, reject) => {
+      const transaction = db.transaction(
+        [BLOB_STORE_NAME, META_STORE_NAME, THUMB_STORE_NAME],
+        'readwrite'
+      );
+      const metaStore = transaction.objectStore(META_STORE_NAME);
+      let found = false;
+      
+      // Skipped if the recording was deleted meanwhile
+      const getRequest = metaStore.getKey(id);
+      getRequest.onsuccess = () => {
+        if (getRequest.result === undefined) return;
+        found = true;
+        transaction.objectStore(BLOB_STORE_NAME).put(storedBlob, id);
+        metaStore.put(storedMeta);
+        // Thumbnails no longer match the content; they're regenerated lazily
+        transaction.objectStore(THUMB_STORE_NAME).delete(id);
+      };
+      
+      transaction.oncomplete = () => {
+        db.close();
+        resolve(found);
+      };
+      transaction.onerror = () => reject(transaction.error);
+    });
+    if (!replaced) return null;
+
+    await updateComments(id, comments => rebaseComments(comments, kept));
+    await updateCaptions(id, cues => rebaseCaptions(cues, kept));
+    broadcastLibraryChange({ type: 'updated', id });
+    return updatedMeta;
+  });
+}
+
+// Swap in a rewritten blob without touching anything but its size
+function putVideoBlob(id: string, blob: Blob): Promise<void> {
+  return queueUpdate(id, async () => {
+    const config = await getVaultConfig();
+    const existingMeta = await readValue<StoredRecordingMeta>(META_STORE_NAME, id);
+    if (!existingMeta) return;
+    
+    const storedBlob = await sealBlob(blob, config);
+    const storedMeta = await sealMeta({ ...(await openMeta(existingMeta)), size: blob.size }, config);
+    const db = await openDB();
+    
+    return new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([BLOB_STORE_NAME, META_STORE_NAME], 'readwrite');
+      const metaStore = transaction.objectStore(META_STORE_NAME);
+      
+      const getRequest = metaStore.getKey(id);
+      getRequest.onsuccess = () => {
+        if (getRequest.result === undefined) return;
+        transaction.objectStore(BLOB_STORE_NAME).put(storedBlob, id);
+        metaStore.put(storedMeta);
+      };
+      
+      transaction.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+    });
+  });
+}
+
+// Repair recordings saved before WebM post-processing existed, adding
+// duration and cues metadata. Returns the number of recordings rewritten.
+export async function repairRecordings(): Promise<number> {
+  const recordings = await getAllRecordings();
+  let repaired = 0;
   
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const metaKey = `${id}-meta`;
+  for (const meta of recordings) {
+    const blob = await getVideo(meta.id);
+    if (!blob) continue;
     
-    // First get the existing metadata
-    const getRequest = store.get(metaKey);
+    // Already-seekable files come back unchanged
+    const fixed = await fixWebmMetadata(blob);
+    if (fixed === blob) continue;
     
-    getRequest.onsuccess = () => {
-      const existingMeta = getRequest.result as RecordingMeta | undefined;
-      if (!existingMeta) {
-        resolve(null);
-        return;
-      }
+    await putVideoBlob(meta.id, fixed);
+    repaired++;
+  }
+  return repaired;
+}
+
+// Retrieve video blob from IndexedDB by key, decrypted if the vault sealed it
+export async function getVideo(id: string): Promise<Blob | null> {
+  const stored = await readValue<Blob | SealedValue>(BLOB_STORE_NAME, id);
+  return stored ? openBlob(stored) : null;
+}
+
+// Get all recording metadata (sorted by newest first)
+export async function getAllRecordings(): Promise<RecordingMeta[]> {
+  return getRecordingsByTimestamp();
+}
+
+// Get recordings made within [from, to] (Unix ms), newest first
+export async function getRecordingsByTimestamp(
+  from = -Infinity,
+  to = Infinity
+): Promise<RecordingMeta[]> {
+  const db = await openDB();
+  const stored = await new Promise<StoredRecordingMeta[]>((resolve, reject) => {
+    const transaction = db.transaction(META_STORE_NAME, 'readonly');
+    const index = transaction.objectStore(META_STORE_NAME).index('timestamp');
+    const request = index.getAll(IDBKeyRange.bound(from, to));
+    
+    // The index returns oldest first
+    request.onsuccess = () => resolve((request.result as StoredRecordingMeta[]).reverse());
+    request.onerror = () => reject(request.error);
+    transaction.oncomplete = () => db.close();
+  });
+  return Promise.all(stored.map(openMeta));
+}
+
+// Store thumbnails for a recording (skipped if it was deleted meanwhile)
+export function saveThumbnails(
+  id: string,
+  thumbnails: RecordingThumbnails
+): Promise<void> {
+  return queueUpdate(id, async () => {
+    const config = await getVaultConfig();
+    const stored: StoredThumbnails = {
+      ...thumbnails,
+      poster: await sealBlob(thumbnails.poster, config),
+      sprite: await sealBlob(thumbnails.sprite, config),
+    };
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([META_STORE_NAME, THUMB_STORE_NAME], 'readwrite');
       
-      // Merge updates with existing metadata
-      const updatedMeta: RecordingMeta = { ...existingMeta, ...updates };
+      const getRequest = transaction.objectStore(META_STORE_NAME).getKey(id);
+      getRequest.onsuccess = () => {
+        if (getRequest.result !== undefined) {
+          transaction.objectStore(THUMB_STORE_NAME).put(stored, id);
+        }
+      };
       
-      // Save updated metadata
-      const putRequest = store.put(updatedMeta, metaKey);
-      putRequest.onsuccess = () => resolve(updatedMeta);
-      putRequest.onerror = () => reject(putRequest.error);
+      transaction.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+    });
+  });
+}
+
+// Retrieve thumbnails for a recording, or null if not generated yet
+export async function getThumbnails(id: string): Promise<RecordingThumbnails | null> {
+  const stored = await readValue<StoredThumbnails>(THUMB_STORE_NAME, id);
+  if (!stored) return null;
+  return {
+    ...stored,
+    poster: await openBlob(stored.poster),
+    sprite: await openBlob(stored.sprite),
+  };
+}
+
+// Retrieve a recording's comments, ordered by playback position
+export async function getComments(recordingId: string): Promise<RecordingComment[]> {
+  const stored = await readValue<RecordingComment[] | SealedValue>(COMMENT_STORE_NAME, recordingId);
+  return stored ? openJson(stored) : [];
+}
+
+// Replace a recording's comments (e.g. when importing)
+export async function saveComments(
+  recordingId: string,
+  comments: RecordingComment[]
+): Promise<void> {
+  const sorted = [...comments].sort((a, b) => a.time - b.time);
+  const stored = sorted.length > 0 ? await sealJson(sorted, await getVaultConfig()) : null;
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(COMMENT_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(COMMENT_STORE_NAME);
+    
+    if (stored) store.put(stored, recordingId);
+    else store.delete(recordingId);
+    
+    transaction.oncomplete = () => {
+      db.close();
+      resolve();
     };
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Read-modify-write a recording's comment list
+function updateComments(
+  recordingId: string,
+  update: (comments: RecordingComment[]) => RecordingComment[]
+): Promise<RecordingComment[]> {
+  return queueUpdate(`comments:${recordingId}`, async () => {
+    const updated = update(await getComments(recordingId)).sort((a, b) => a.time - b.time);
+    await saveComments(recordingId, updated);
+    return updated;
+  });
+}
+
+// Add a comment at a playback position; returns the updated list
+export function addComment(
+  recordingId: string,
+  time: number,
+  text: string
+): Promise<RecordingComment[]> {
+  const comment: RecordingComment = {
+    id: `comment-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    time,
+    text,
+    createdAt: Date.now(),
+  };
+  return updateComments(recordingId, comments => [...comments, comment]);
+}
+
+// Remove a comment; returns the updated list
+export function deleteComment(
+  recordingId: string,
+  commentId: string
+): Promise<RecordingComment[]> {
+  return updateComments(recordingId, comments => comments.filter(c => c.id !== commentId));
+}
+
+// Retrieve a recording's caption cues, ordered by start time
+export async function getCaptions(recordingId: string): Promise<CaptionCue[]> {
+  const stored = await readValue<CaptionCue[] | SealedValue>(CAPTION_STORE_NAME, recordingId);
+  return stored ? openJson(stored) : [];
+}
+
+// Write a recording's caption cues; an empty list removes them
+async function writeCaptions(recordingId: string, cues: CaptionCue[]): Promise<CaptionCue[]> {
+  const sorted = [...cues].sort((a, b) => a.start - b.start || a.end - b.end);
+  const stored = sorted.length > 0 ? await sealJson(sorted, await getVaultConfig()) : null;
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(CAPTION_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(CAPTION_STORE_NAME);
     
-    getRequest.onerror = () => reject(getRequest.error);
-    transaction.oncomplete = () => db.close();
+    if (stored) store.put(stored, recordingId);
+    else store.delete(recordingId);
+    
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(sorted);
+    };
+    transaction.onerror = () => reject(transaction.error);
   });
 }
 
-// Retrieve video blob from IndexedDB by key
-export async function getVideo(id: string): Promise<Blob | null> {
+// Read-modify-write a recording's caption cues
+function updateCaptions(
+  recordingId: string,
+  update: (cues: CaptionCue[]) => CaptionCue[]
+): Promise<CaptionCue[]> {
+  return queueUpdate(`captions:${recordingId}`, async () =>
+    writeCaptions(recordingId, update(await getCaptions(recordingId)))
+  );
+}
+
+// Replace a recording's caption cues; an empty list removes them
+export function saveCaptions(recordingId: string, cues: CaptionCue[]): Promise<CaptionCue[]> {
+  return updateCaptions(recordingId, () => cues);
+}
+
+const SAVE_FOLDER_KEY = 'saveFolder';
+
+// Directory finished recordings are also written to, if one was picked
+export async function getSaveFolderHandle(): Promise<FileSystemDirectoryHandle | null> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readonly');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.get(id);
+    const transaction = db.transaction(SETTINGS_STORE_NAME, 'readonly');
+    const request = transaction.objectStore(SETTINGS_STORE_NAME).get(SAVE_FOLDER_KEY);
     
     request.onsuccess = () => resolve(request.result || null);
     request.onerror = () => reject(request.error);
@@ -133,58 +726,432 @@ export async function getVideo(id: string): Promise<Blob | null> {
   });
 }
 
-// Get all recording metadata (sorted by newest first)
-export async function getAllRecordings(): Promise<RecordingMeta[]> {
+// Remember (or with null, forget) the save folder
+export async function setSaveFolderHandle(handle: FileSystemDirectoryHandle | null): Promise<void> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readonly');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.getAllKeys();
-    
-    request.onsuccess = async () => {
-      const keys = request.result as string[];
-      // Filter for metadata keys only
-      const metaKeys = keys.filter(k => k.endsWith('-meta'));
-      
-      // Fetch all metadata
-      const metaPromises = metaKeys.map(key => {
-        return new Promise<RecordingMeta>((res, rej) => {
-          const req = store.get(key);
-          req.onsuccess = () => res(req.result);
-          req.onerror = () => rej(req.error);
-        });
-      });
-      
-      try {
-        const recordings = await Promise.all(metaPromises);
-        // Sort by timestamp descending (newest first)
-        recordings.sort((a, b) => b.timestamp - a.timestamp);
-        resolve(recordings);
-      } catch (err) {
-        reject(err);
-      }
+    const transaction = db.transaction(SETTINGS_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(SETTINGS_STORE_NAME);
+    
+    if (handle) store.put(handle, SAVE_FOLDER_KEY);
+    else store.delete(SAVE_FOLDER_KEY);
+    
+    transaction.oncomplete = () => {
+      db.close();
+      resolve();
+    };
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+const VAULT_KEY = 'vault';
+
+// Whether encryption is on, and if so whether this tab holds the keys
+export type VaultStatus = 'off' | 'locked' | 'unlocked';
+
+// Reports re-encryption progress in stored items
+export type ResealProgress = (done: number, total: number) => void;
+
+// Set while this tab re-encrypts the library; locking waits until it's done
+let resealInProgress = false;
+
+// Vault settings, or null while encryption is off. Read afresh for every
+// write, so a tab never writes plaintext after another turned the vault on.
+export async function getVaultConfig(): Promise<VaultConfig | null> {
+  return (await readValue<VaultConfig>(SETTINGS_STORE_NAME, VAULT_KEY)) ?? null;
+}
+
+async function putVaultConfig(config: VaultConfig | null): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SETTINGS_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(SETTINGS_STORE_NAME);
+    
+    if (config) store.put(config, VAULT_KEY);
+    else store.delete(VAULT_KEY);
+    
+    transaction.oncomplete = () => {
+      db.close();
+      resolve();
     };
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+async function requireVaultConfig(): Promise<VaultConfig> {
+  const config = await getVaultConfig();
+  if (!config) throw new Error('Encryption is not turned on');
+  return config;
+}
+
+export async function getVaultStatus(): Promise<VaultStatus> {
+  const config = await getVaultConfig();
+  if (!config) return 'off';
+  return hasKeys(config) ? 'unlocked' : 'locked';
+}
+
+// Stored values that get sealed, and the queueUpdate key prefix their
+// writers use (null for chunks, which are never rewritten)
+const SEALED_STORES: [string, string | null][] = [
+  [BLOB_STORE_NAME, ''],
+  [CHUNK_STORE_NAME, null],
+  [THUMB_STORE_NAME, ''],
+  [META_STORE_NAME, ''],
+  [SESSION_STORE_NAME, 'session:'],
+  [COMMENT_STORE_NAME, 'comments:'],
+  [CAPTION_STORE_NAME, 'captions:'],
+];
+
+// A stored value re-encrypted the way the config asks, or null if it
+// already is
+async function resealValue(storeName: string, value: unknown, config: VaultConfig): Promise<unknown> {
+  switch (storeName) {
+    case BLOB_STORE_NAME:
+    case CHUNK_STORE_NAME: {
+      const blob = value as Blob | SealedValue;
+      if (isSealedAsConfigured(blob, config)) return null;
+      return sealBlob(await openBlob(blob), config);
+    }
+    case THUMB_STORE_NAME: {
+      const thumbnails = value as StoredThumbnails;
+      if (isSealedAsConfigured(thumbnails.poster, config) && isSealedAsConfigured(thumbnails.sprite, config)) {
+        return null;
+      }
+      return {
+        ...thumbnails,
+        poster: await sealBlob(await openBlob(thumbnails.poster), config),
+        sprite: await sealBlob(await openBlob(thumbnails.sprite), config),
+      };
+    }
+    case META_STORE_NAME: {
+      const meta = value as StoredRecordingMeta;
+      if (isSealedAsConfigured('sealed' in meta ? meta.sealed : meta, config, true)) return null;
+      return sealMeta(await openMeta(meta), config);
+    }
+    case SESSION_STORE_NAME: {
+      const session = value as StoredPendingRecording;
+      if (!session.chapters?.some(chapter => !isSealedAsConfigured(chapter, config, true))) return null;
+      const chapters = await Promise.all(
+        session.chapters.map(async chapter => sealJson(await openJson(chapter), config))
+      );
+      return { ...session, chapters };
+    }
+    default: {
+      const list = value as unknown[] | SealedValue;
+      if (isSealedAsConfigured(list, config, true)) return null;
+      return sealJson(await openJson(list), config);
+    }
+  }
+}
+
+// Bring every stored item in line with the config, one at a time so only
+// a single recording is in memory
+async function resealLibrary(config: VaultConfig, onProgress?: ResealProgress): Promise<void> {
+  const db = await openDB();
+  const keysByStore = await new Promise<IDBValidKey[][]>((resolve, reject) => {
+    const transaction = db.transaction(SEALED_STORES.map(([storeName]) => storeName), 'readonly');
+    const requests = SEALED_STORES.map(([storeName]) => transaction.objectStore(storeName).getAllKeys());
     
-    request.onerror = () => reject(request.error);
-    transaction.oncomplete = () => db.close();
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(requests.map(request => request.result));
+    };
+    transaction.onerror = () => reject(transaction.error);
   });
+  
+  const total = keysByStore.reduce((sum, keys) => sum + keys.length, 0);
+  let done = 0;
+  onProgress?.(done, total);
+  
+  for (let i = 0; i < SEALED_STORES.length; i++) {
+    const [storeName, queuePrefix] = SEALED_STORES[i];
+    for (const key of keysByStore[i]) {
+      const reseal = async () => {
+        const value = await readValue(storeName, key);
+        const resealed = value === undefined ? null : await resealValue(storeName, value, config);
+        if (resealed !== null) await replaceValue(storeName, key, resealed);
+      };
+      // In the same queue as edits, so one made meanwhile isn't overwritten
+      await (queuePrefix === null ? reseal() : queueUpdate(`${queuePrefix}${String(key)}`, reseal));
+      onProgress?.(++done, total);
+    }
+  }
+}
+
+// Save the config and re-encrypt the library to match, then drop keys no
+// longer in use. If this is interrupted, the next unlock finishes the job.
+async function resealWith(config: VaultConfig, onProgress?: ResealProgress): Promise<void> {
+  resealInProgress = true;
+  try {
+    await putVaultConfig({ ...config, resealing: true });
+    broadcastVaultChange();
+    await resealLibrary(config, onProgress);
+    
+    if (config.currentKeyId === null) {
+      await putVaultConfig(null);
+      forgetKeys();
+    } else {
+      const keys = config.keys.filter(wrapped => wrapped.id === config.currentKeyId);
+      await putVaultConfig({ ...config, keys, resealing: false });
+    }
+    broadcastVaultChange();
+  } finally {
+    resealInProgress = false;
+  }
+}
+
+// Turn encryption on, encrypting everything already in the library
+export async function createVault(
+  passphrase: string,
+  sealMetadata: boolean,
+  onProgress?: ResealProgress
+): Promise<void> {
+  if (await getVaultConfig()) throw new Error('Encryption is already turned on');
+  await resealWith(await createVaultConfig(passphrase, sealMetadata), onProgress);
+}
+
+// Unlock with the passphrase (a wrong one throws a VaultError). Finishes a
+// re-encryption that was cut short, e.g. by closing the tab.
+export async function unlockVault(passphrase: string, onProgress?: ResealProgress): Promise<void> {
+  const config = await requireVaultConfig();
+  await unlockKeys(config, passphrase);
+  if (config.resealing) await resealWith(config, onProgress);
+}
+
+// Forget the keys; returns false while a re-encryption still needs them
+export function lockVault(): boolean {
+  if (resealInProgress) return false;
+  forgetKeys();
+  return true;
+}
+
+// Change the passphrase. Recordings get a new key too, so a copy of the
+// old passphrase can't decrypt anything stored afterwards.
+export async function changeVaultPassphrase(
+  passphrase: string,
+  newPassphrase: string,
+  onProgress?: ResealProgress
+): Promise<void> {
+  const config = await requireVaultConfig();
+  const keys = await exportKeys(config, passphrase);
+  await resealWith(await createVaultConfig(newPassphrase, config.sealMetadata, keys), onProgress);
+}
+
+// Choose whether metadata is encrypted along with the video
+export async function setVaultSealsMetadata(sealMetadata: boolean, onProgress?: ResealProgress): Promise<void> {
+  const config = await requireVaultConfig();
+  if (!hasKeys(config)) throw new VaultError('Unlock the vault first', 'locked');
+  await resealWith({ ...config, sealMetadata }, onProgress);
+}
+
+// Turn encryption off, decrypting the library
+export async function removeVault(passphrase: string, onProgress?: ResealProgress): Promise<void> {
+  const config = await requireVaultConfig();
+  await unlockKeys(config, passphrase);
+  await resealWith({ ...config, currentKeyId: null }, onProgress);
 }
 
 // Delete video and its metadata from IndexedDB
 export async function deleteVideo(id: string): Promise<void> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
+    const transaction = db.transaction(
+      [BLOB_STORE_NAME, META_STORE_NAME, THUMB_STORE_NAME, COMMENT_STORE_NAME, CAPTION_STORE_NAME],
+      'readwrite'
+    );
     
-    // Delete both blob and metadata
-    store.delete(id);
-    store.delete(`${id}-meta`);
+    // Delete blob, metadata, thumbnails, comments and captions
+    transaction.objectStore(BLOB_STORE_NAME).delete(id);
+    transaction.objectStore(META_STORE_NAME).delete(id);
+    transaction.objectStore(THUMB_STORE_NAME).delete(id);
+    transaction.objectStore(COMMENT_STORE_NAME).delete(id);
+    transaction.objectStore(CAPTION_STORE_NAME).delete(id);
     
     transaction.oncomplete = () => {
       db.close();
+      broadcastLibraryChange({ type: 'deleted', id });
       resolve();
     };
     transaction.onerror = () => reject(transaction.error);
   });
-}
\ No newline at end of file
+}
+
+// Register a new in-progress recording before any chunks arrive
+export async function startPendingRecording(
+  id: string,
+  mimeType: string,
+  capture?: RecordingCapture
+): Promise<PendingRecording> {
+  const db = await openDB();
+  const now = Date.now();
+  const session: PendingRecording = {
+    id,
+    mimeType,
+    startedAt: now,
+    updatedAt: now,
+    duration: 0,
+    chunkCount: 0,
+    size: 0,
+    ...(capture && { capture }),
+  };
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SESSION_STORE_NAME, 'readwrite');
+    transaction.objectStore(SESSION_STORE_NAME).put(session);
+
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(session);
+    };
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Persist one recorded chunk and update the session's progress
+export function appendRecordingChunk(
+  id: string,
+  index: number,
+  chunk: Blob,
+  duration: number
+): Promise<void> {
+  return queueUpdate(`session:${id}`, async () => {
+    const storedChunk = await sealBlob(chunk, await getVaultConfig());
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([SESSION_STORE_NAME, CHUNK_STORE_NAME], 'readwrite');
+      const sessionStore = transaction.objectStore(SESSION_STORE_NAME);
+
+      transaction.objectStore(CHUNK_STORE_NAME).put(storedChunk, [id, index]);
+
+      const getRequest = sessionStore.get(id);
+      getRequest.onsuccess = () => {
+        const session = getRequest.result as PendingRecording | undefined;
+        if (!session) return;
+        sessionStore.put({
+          ...session,
+          updatedAt: Date.now(),
+          duration,
+          chunkCount: Math.max(session.chunkCount, index + 1),
+          size: session.size + chunk.size,
+        });
+      };
+
+      transaction.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+    });
+  });
+}
+
+// Record a chapter marker on an in-progress recording
+export function addPendingChapter(
+  id: string,
+  chapter: RecordingChapter
+): Promise<void> {
+  return queueUpdate(`session:${id}`, async () => {
+    const storedChapter = await sealJson(chapter, await getVaultConfig());
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(SESSION_STORE_NAME, 'readwrite');
+      const sessionStore = transaction.objectStore(SESSION_STORE_NAME);
+
+      const getRequest = sessionStore.get(id);
+      getRequest.onsuccess = () => {
+        const session = getRequest.result as StoredPendingRecording | undefined;
+        if (!session) return;
+        sessionStore.put({
+          ...session,
+          chapters: [...(session.chapters ?? []), storedChapter],
+        });
+      };
+
+      transaction.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+    });
+  });
+}
+
+// Get all unfinished recordings (sorted by newest first)
+export async function getPendingRecordings(): Promise<PendingRecording[]> {
+  const db = await openDB();
+  const sessions = await new Promise<StoredPendingRecording[]>((resolve, reject) => {
+    const transaction = db.transaction(SESSION_STORE_NAME, 'readonly');
+    const request = transaction.objectStore(SESSION_STORE_NAME).getAll();
+
+    request.onsuccess = () => resolve(request.result as StoredPendingRecording[]);
+    request.onerror = () => reject(request.error);
+    transaction.oncomplete = () => db.close();
+  });
+  sessions.sort((a, b) => b.startedAt - a.startedAt);
+  return Promise.all(sessions.map(openSession));
+}
+
+// Key range covering every chunk of one session, in index order
+function chunkRange(id: string): IDBKeyRange {
+  return IDBKeyRange.bound([id, 0], [id, Infinity]);
+}
+
+// Remove an in-progress recording and all of its chunks
+export async function discardPendingRecording(id: string): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SESSION_STORE_NAME, CHUNK_STORE_NAME], 'readwrite');
+
+    transaction.objectStore(SESSION_STORE_NAME).delete(id);
+    transaction.objectStore(CHUNK_STORE_NAME).delete(chunkRange(id));
+
+    transaction.oncomplete = () => {
+      db.close();
+      resolve();
+    };
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Assemble an in-progress recording's chunks into a saved recording.
+// Used both when recording stops normally and when recovering after a crash.
+export async function finalizePendingRecording(
+  id: string,
+  duration?: number,
+  name?: string
+): Promise<RecordingMeta | null> {
+  const db = await openDB();
+  const { session: storedSession, chunks } = await new Promise<{
+    session: StoredPendingRecording | undefined;
+    chunks: (Blob | SealedValue)[];
+  }>((resolve, reject) => {
+    const transaction = db.transaction([SESSION_STORE_NAME, CHUNK_STORE_NAME], 'readonly');
+    const sessionRequest = transaction.objectStore(SESSION_STORE_NAME).get(id);
+    const chunksRequest = transaction.objectStore(CHUNK_STORE_NAME).getAll(chunkRange(id));
+
+    transaction.oncomplete = () => {
+      db.close();
+      resolve({
+        session: sessionRequest.result,
+        chunks: chunksRequest.result as (Blob | SealedValue)[],
+      });
+    };
+    transaction.onerror = () => reject(transaction.error);
+  });
+
+  if (!storedSession) return null;
+  const session = await openSession(storedSession);
+
+  let meta: RecordingMeta | null = null;
+  if (chunks.length > 0) {
+    const parts: Blob[] = [];
+    for (const chunk of chunks) parts.push(await openBlob(chunk));
+    const blob = new Blob(parts, { type: session.mimeType });
+    meta = await saveVideo(id, blob, duration ?? session.duration, name, {
+      ...(session.chapters?.length && { chapters: session.chapters }),
+      ...(session.capture && { capture: session.capture }),
+    });
+  }
+  await discardPendingRecording(id);
+  return meta;
+}
@@ -0,0 +1,81 @@
+// Search, filter and sort for the recording library.
+// The whole library's metadata is already in memory for the list, so these
+// work on that array rather than issuing IndexedDB queries per keystroke.
+
+import { RecordingMeta } from './indexeddb';
+
+export type SortKey = 'date' | 'duration' | 'size' | 'name';
+export type SortDirection = 'asc' | 'desc';
+
+export interface LibraryFilter {
+  query: string;          // Matched against name, tags and description
+  tag: string | null;     // Only recordings carrying this tag
+  folder: string | null;  // Only recordings in this folder
+}
+
+export const EMPTY_FILTER: LibraryFilter = { query: '', tag: null, folder: null };
+
+// Normalise a comma-separated tag input into a unique, trimmed list
+export function parseTags(input: string): string[] {
+  const tags = input
+    .split(',')
+    .map(tag => tag.trim())
+    .filter(tag => tag.length > 0);
+  return Array.from(new Set(tags));
+}
+
+// All tags used across the library, alphabetically
+export function collectTags(recordings: RecordingMeta[]): string[] {
+  const tags = new Set<string>();
+  recordings.forEach(rec => rec.tags?.forEach(tag => tags.add(tag)));
+  return Array.from(tags).sort((a, b) => a.localeCompare(b));
+}
+
+// All folders used across the library, alphabetically
+export function collectFolders(recordings: RecordingMeta[]): string[] {
+  const folders = new Set<string>();
+  recordings.forEach(rec => {
+    if (rec.folder) folders.add(rec.folder);
+  });
+  return Array.from(folders).sort((a, b) => a.localeCompare(b));
+}
+
+// Every whitespace-separated search term must appear somewhere in the
+// recording's name, tags or description (case-insensitive)
+function matchesQuery(rec: RecordingMeta, query: string): boolean {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+
+  const haystack = [rec.name, ...(rec.tags ?? []), rec.description ?? '']
+    .join('\n')
+    .toLowerCase();
+  return terms.every(term => haystack.includes(term));
+}
+
+export function filterRecordings(
+  recordings: RecordingMeta[],
+  filter: LibraryFilter
+): RecordingMeta[] {
+  return recordings.filter(rec =>
+    (filter.tag === null || (rec.tags ?? []).includes(filter.tag)) &&
+    (filter.folder === null || rec.folder === filter.folder) &&
+    matchesQuery(rec, filter.query)
+  );
+}
+
+const COMPARATORS: Record<SortKey, (a: RecordingMeta, b: RecordingMeta) => number> = {
+  date: (a, b) => a.timestamp - b.timestamp,
+  duration: (a, b) => a.duration - b.duration,
+  size: (a, b) => a.size - b.size,
+  name: (a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }),
+};
+
+export function sortRecordings(
+  recordings: RecordingMeta[],
+  key: SortKey,
+  direction: SortDirection
+): RecordingMeta[] {
+  const compare = COMPARATORS[key];
+  const sorted = [...recordings].sort(compare);
+  return direction === 'desc' ? sorted.reverse() : sorted;
+}
@@ -0,0 +1,97 @@
+// Small helpers for driving off-screen <video> elements
+
+// Wait for a one-off media event, rejecting if the element errors first
+export function waitForMediaEvent(target: HTMLMediaElement, event: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onEvent = () => {
+      target.removeEventListener('error', onError);
+      resolve();
+    };
+    const onError = () => {
+      target.removeEventListener(event, onEvent);
+      reject(target.error ?? new Error('Failed to load video'));
+    };
+    target.addEventListener(event, onEvent, { once: true });
+    target.addEventListener('error', onError, { once: true });
+  });
+}
+
+// Frame timer running in a worker: rAF and main-thread timers are throttled
+// once the tab is in the background, which is exactly where it is while the
+// user records another window or waits out a trim or merge
+export function createTicker(fps: number, onTick: () => void): () => void {
+  const source = `setInterval(() => postMessage(0), ${1000 / fps});`;
+  const url = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+  const worker = new Worker(url);
+  worker.onmessage = onTick;
+
+  return () => {
+    worker.terminate();
+    URL.revokeObjectURL(url);
+  };
+}
+
+// Play from the current position until `end` (or the video's own end),
+// calling onFrame on every tick to copy the frame out. Paused on return.
+export async function playUntil(
+  video: HTMLVideoElement,
+  end: number,
+  onFrame: () => void,
+  fps = 30
+): Promise<void> {
+  let stopTicker = () => {};
+  const finished = new Promise<void>((resolve) => {
+    stopTicker = createTicker(fps, () => {
+      onFrame();
+      if (video.currentTime >= end || video.ended) resolve();
+    });
+    video.addEventListener('ended', () => resolve(), { once: true });
+  });
+
+  try {
+    await video.play();
+    await finished;
+  } finally {
+    video.pause();
+    stopTicker();
+  }
+}
+
+// Seek and wait until the frame at `time` is available
+export async function seekTo(video: HTMLVideoElement, time: number): Promise<void> {
+  const seeked = waitForMediaEvent(video, 'seeked');
+  video.currentTime = time;
+  await seeked;
+}
+
+// Load a blob into a detached <video>; release it with releaseVideo
+export async function loadVideo(blob: Blob, muted = true): Promise<HTMLVideoElement> {
+  const video = document.createElement('video');
+  video.muted = muted;
+  video.playsInline = true;
+  video.preload = 'auto';
+  const loaded = waitForMediaEvent(video, 'loadedmetadata');
+  video.src = URL.createObjectURL(blob);
+  try {
+    await loaded;
+  } catch (err) {
+    releaseVideo(video);
+    throw err;
+  }
+  return video;
+}
+
+// Stop a video created by loadVideo and free its object URL
+export function releaseVideo(video: HTMLVideoElement): void {
+  const url = video.src;
+  video.pause();
+  video.removeAttribute('src');
+  video.load();
+  if (url.startsWith('blob:')) URL.revokeObjectURL(url);
+}
+
+// Pick the MIME type for re-recording: keep the source type when it's supported
+export function pickMimeType(sourceType: string): string {
+  if (sourceType && MediaRecorder.isTypeSupported(sourceType)) return sourceType;
+  return MediaRecorder.isTypeSupported('video/webm') ? 'video/webm' : 'video/mp4';
+}
@@ -0,0 +1,119 @@
+// Join several recordings into one. Like trimming, this plays each clip into
+// a canvas and an audio destination and records the result in real time.
+// Clips of other sizes are scaled to fit the output frame and letterboxed.
+// The recorder is paused while the next clip loads, so the gaps don't end
+// up in the result.
+
+import { loadVideo, pickMimeType, playUntil, releaseVideo, seekTo } from './media';
+
+const FRAME_RATE = 30;
+const FALLBACK_WIDTH = 1280;
+const FALLBACK_HEIGHT = 720;
+
+export interface MergeClip {
+  blob: Blob;
+  start: number; // Section to include, in seconds
+  end: number;
+}
+
+// Output frame: the largest clip's, rounded down to even numbers as
+// encoders expect
+async function measureFrame(clips: MergeClip[]): Promise<{ width: number; height: number }> {
+  let width = 0;
+  let height = 0;
+  for (const clip of clips) {
+    const video = await loadVideo(clip.blob);
+    try {
+      if (video.videoWidth * video.videoHeight > width * height) {
+        width = video.videoWidth;
+        height = video.videoHeight;
+      }
+    } finally {
+      releaseVideo(video);
+    }
+  }
+  if (width === 0 || height === 0) return { width: FALLBACK_WIDTH, height: FALLBACK_HEIGHT };
+  return { width: width - (width % 2), height: height - (height % 2) };
+}
+
+// Draw the frame scaled to fit, centred on black
+function drawContained(ctx: CanvasRenderingContext2D, video: HTMLVideoElement, width: number, height: number) {
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+  if (!video.videoWidth || !video.videoHeight) return;
+  const scale = Math.min(width / video.videoWidth, height / video.videoHeight);
+  const drawWidth = video.videoWidth * scale;
+  const drawHeight = video.videoHeight * scale;
+  ctx.drawImage(video, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+}
+
+// Merge clips in order into one blob.
+// onProgress receives a 0-1 fraction of the combined length processed so far.
+export async function mergeVideos(
+  clips: MergeClip[],
+  onProgress?: (progress: number) => void
+): Promise<Blob> {
+  if (clips.length === 0) throw new Error('Nothing to merge');
+
+  const { width, height } = await measureFrame(clips);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  const audioContext = new AudioContext();
+  const destination = audioContext.createMediaStreamDestination();
+  const stream = new MediaStream([
+    ...canvas.captureStream(FRAME_RATE).getVideoTracks(),
+    ...destination.stream.getAudioTracks(),
+  ]);
+
+  const mimeType = pickMimeType(clips[0].blob.type);
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+  });
+
+  const total = clips.reduce((sum, clip) => sum + Math.max(clip.end - clip.start, 0), 0) || 0.001;
+  let done = 0;
+
+  try {
+    for (const clip of clips) {
+      // Unmuted: the element's audio is routed to the recorder, not the speakers
+      const video = await loadVideo(clip.blob, false);
+      const source = audioContext.createMediaElementSource(video);
+      source.connect(destination);
+
+      try {
+        await seekTo(video, clip.start);
+        drawContained(ctx, video, width, height);
+
+        if (recorder.state === 'inactive') recorder.start(1000);
+        else recorder.resume();
+        await playUntil(video, clip.end, () => {
+          drawContained(ctx, video, width, height);
+          onProgress?.(Math.min((done + Math.max(video.currentTime - clip.start, 0)) / total, 1));
+        }, FRAME_RATE);
+        recorder.pause();
+      } finally {
+        source.disconnect();
+        releaseVideo(video);
+      }
+      done += Math.max(clip.end - clip.start, 0);
+    }
+
+    recorder.stop();
+    await stopped;
+    onProgress?.(1);
+    return new Blob(chunks, { type: mimeType });
+  } finally {
+    if (recorder.state !== 'inactive') recorder.stop();
+    stream.getTracks().forEach(track => track.stop());
+    audioContext.close();
+  }
+}
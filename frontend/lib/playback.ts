@@ -0,0 +1,56 @@
+// Player settings and links to a moment in a recording. Links carry the
+// recording ID and time in the URL hash (e.g. "#recording=recording-1700000000000&t=42.5"),
+// so they open the local library and never reach the server.
+
+export const PLAYBACK_RATES = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+
+// Seconds jumped back or forward
+export const SKIP_SECONDS = 5;
+
+// Frame step for recordings that don't record their frame rate
+export const DEFAULT_FRAME_RATE = 30;
+
+// A-B loop; either point may be unset while it's being marked
+export interface LoopRegion {
+  start: number | null;
+  end: number | null;
+}
+
+export const NO_LOOP: LoopRegion = { start: null, end: null };
+
+// Whether both points are set, in order
+export function isLoopActive(loop: LoopRegion): loop is { start: number; end: number } {
+  return loop.start !== null && loop.end !== null && loop.end > loop.start;
+}
+
+// Next speed up (1) or down (-1) from the current one
+export function stepPlaybackRate(rate: number, direction: 1 | -1): number {
+  const index = PLAYBACK_RATES.findIndex(option => option >= rate);
+  const current = index === -1 ? PLAYBACK_RATES.length - 1 : index;
+  const next = Math.min(Math.max(current + direction, 0), PLAYBACK_RATES.length - 1);
+  return PLAYBACK_RATES[next];
+}
+
+export interface TimestampLink {
+  id: string;   // Recording ID
+  time: number; // Seconds
+}
+
+// Link to this page that opens a recording at a time
+export function buildTimestampLink(link: TimestampLink, base: string): string {
+  const url = new URL(base);
+  url.hash = new URLSearchParams({
+    recording: link.id,
+    t: String(Math.round(link.time * 10) / 10),
+  }).toString();
+  return url.href;
+}
+
+// Recording and time from a URL hash, or null if it isn't a timestamp link
+export function parseTimestampLink(hash: string): TimestampLink | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const id = params.get('recording');
+  if (!id) return null;
+  const time = Number(params.get('t') ?? 0);
+  return { id, time: Number.isFinite(time) && time > 0 ? time : 0 };
+}
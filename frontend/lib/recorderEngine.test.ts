@@ -0,0 +1,317 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createRecorderEngine,
+  RecorderDependencies,
+  RecorderError,
+  RecorderEngine,
+  RecorderState,
+  RecordingOptions
+} from './recorderEngine';
+import { DEFAULT_CAPTURE_SETTINGS } from './capture';
+import { DEFAULT_MIXER_SETTINGS, AudioMixer } from './audioMixer';
+import { DEFAULT_WEBCAM_OVERLAY } from './compositor';
+import type { PendingRecording, RecordingMeta } from './indexeddb';
+
+// ---------------------------------------------------------------------------
+// Fake media APIs
+// ---------------------------------------------------------------------------
+
+class FakeTrack {
+  readyState: MediaStreamTrackState = 'live';
+  onended: (() => void) | null = null;
+  constructor(public kind: 'audio' | 'video') {}
+
+  stop() {
+    this.readyState = 'ended';
+  }
+
+  getSettings(): MediaTrackSettings {
+    return this.kind === 'video' ? { width: 1280, height: 720, frameRate: 30 } : {};
+  }
+
+  // The user pressing "Stop sharing" in the browser's own UI
+  end() {
+    this.readyState = 'ended';
+    this.onended?.();
+  }
+}
+
+class FakeStream {
+  constructor(private tracks: FakeTrack[]) {}
+  getTracks() {
+    return this.tracks;
+  }
+  getVideoTracks() {
+    return this.tracks.filter(track => track.kind === 'video');
+  }
+  getAudioTracks() {
+    return this.tracks.filter(track => track.kind === 'audio');
+  }
+}
+
+class FakeMediaRecorder {
+  static instances: FakeMediaRecorder[] = [];
+  static isTypeSupported = () => true;
+
+  state: RecordingState = 'inactive';
+  ondataavailable: ((event: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+
+  constructor(public stream: FakeStream) {
+    FakeMediaRecorder.instances.push(this);
+  }
+
+  start() {
+    this.state = 'recording';
+  }
+  pause() {
+    this.state = 'paused';
+  }
+  resume() {
+    this.state = 'recording';
+  }
+
+  // Like the real one: the last chunk arrives, then stop fires
+  stop() {
+    this.state = 'inactive';
+    queueMicrotask(() => {
+      this.ondataavailable?.({ data: new Blob(['chunk']) });
+      this.onstop?.();
+    });
+  }
+}
+
+const asStream = (stream: FakeStream) => stream as unknown as MediaStream;
+
+function createFakes() {
+  const screenVideo = new FakeTrack('video');
+  const screen = new FakeStream([screenVideo]);
+  const mic = new FakeStream([new FakeTrack('audio')]);
+  const mixed = new FakeStream([new FakeTrack('audio')]);
+  const lock = { release: vi.fn() };
+
+  const meta: RecordingMeta = { id: 'recording-1', name: 'Recording', timestamp: 0, duration: 0, size: 5 };
+  const deps = {
+    mediaDevices: {
+      getDisplayMedia: vi.fn(async () => asStream(screen)),
+      getUserMedia: vi.fn(async () => asStream(mic)),
+    },
+    MediaRecorder: FakeMediaRecorder as unknown as RecorderDependencies['MediaRecorder'],
+    MediaStream: FakeStream as unknown as RecorderDependencies['MediaStream'],
+    storage: {
+      generateId: () => 'recording-1',
+      start: vi.fn(async (id: string, mimeType: string): Promise<PendingRecording> => ({
+        id, mimeType, startedAt: 0, updatedAt: 0, duration: 0, chunkCount: 0, size: 0,
+      })),
+      appendChunk: vi.fn(async () => {}),
+      addChapter: vi.fn(async () => {}),
+      finalize: vi.fn(async (id: string, duration?: number) => ({ ...meta, id, duration: duration ?? 0 })),
+    },
+    createMixer: vi.fn((): AudioMixer => ({
+      stream: asStream(mixed),
+      sources: ['mic'],
+      setSource: () => {},
+      getLevel: () => 0,
+      stop: vi.fn(),
+    })),
+    createCompositor: vi.fn(),
+    createLiveUpload: vi.fn(),
+    acquireLock: vi.fn(async () => lock),
+    clock: {
+      now: () => Date.now(),
+      setTimeout: (callback: () => void, ms: number) => setTimeout(callback, ms),
+      clearTimeout: (handle: unknown) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+    },
+  } satisfies RecorderDependencies;
+
+  return { deps, screen, screenVideo, mic, lock };
+}
+
+const options = (overrides: Partial<RecordingOptions> = {}): RecordingOptions => ({
+  capture: { ...DEFAULT_CAPTURE_SETTINGS, maxDurationSec: 60, countdownSec: 0 },
+  includeMic: false,
+  micDeviceId: null,
+  mixer: DEFAULT_MIXER_SETTINGS,
+  includeWebcam: false,
+  webcamOverlay: DEFAULT_WEBCAM_OVERLAY,
+  includeDrawing: false,
+  upload: false,
+  ...overrides,
+});
+
+// Record every state the engine passes through, and its events
+function observe(engine: RecorderEngine) {
+  const states: RecorderState[] = [];
+  const saved: (RecordingMeta | null)[] = [];
+  const errors: RecorderError[] = [];
+  engine.on('change', (snapshot) => {
+    if (states[states.length - 1] !== snapshot.state) states.push(snapshot.state);
+  });
+  engine.on('saved', (meta) => saved.push(meta));
+  engine.on('error', (error) => errors.push(error));
+  return { states, saved, errors };
+}
+
+// ---------------------------------------------------------------------------
+// Specs
+// ---------------------------------------------------------------------------
+
+describe('recorder engine', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    FakeMediaRecorder.instances = [];
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('fails with an error state and event when screen sharing is denied', async () => {
+    const { deps, lock } = createFakes();
+    const denied = new DOMException('Permission denied', 'NotAllowedError');
+    deps.mediaDevices.getDisplayMedia.mockRejectedValueOnce(denied);
+    const engine = createRecorderEngine(deps);
+    const { states, errors } = observe(engine);
+
+    await engine.start(options());
+
+    expect(engine.getSnapshot()).toMatchObject({ state: 'error', error: 'Permission denied', recordingId: null });
+    expect(states).toEqual(['acquiring', 'error']);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ phase: 'acquire', reason: denied });
+    expect(lock.release).toHaveBeenCalled();
+    expect(FakeMediaRecorder.instances).toHaveLength(0);
+  });
+
+  it('records without the mic when it is denied', async () => {
+    const { deps } = createFakes();
+    deps.mediaDevices.getUserMedia.mockRejectedValueOnce(new DOMException('Permission denied', 'NotAllowedError'));
+    const engine = createRecorderEngine(deps);
+    const { errors } = observe(engine);
+
+    await engine.start(options({ includeMic: true }));
+
+    expect(engine.getSnapshot()).toMatchObject({ state: 'recording', mixer: null });
+    expect(errors).toHaveLength(0);
+    // Screen has no audio and the mic is gone, so nothing needs mixing
+    expect(deps.createMixer).not.toHaveBeenCalled();
+    const [recorder] = FakeMediaRecorder.instances;
+    expect(recorder.stream.getAudioTracks()).toHaveLength(0);
+    expect(recorder.stream.getVideoTracks()).toHaveLength(1);
+  });
+
+  it('mixes the mic in when it is granted', async () => {
+    const { deps } = createFakes();
+    const engine = createRecorderEngine(deps);
+
+    await engine.start(options({ includeMic: true }));
+
+    expect(deps.createMixer).toHaveBeenCalledWith(expect.objectContaining({ mic: expect.anything() }), DEFAULT_MIXER_SETTINGS);
+    expect(FakeMediaRecorder.instances[0].stream.getAudioTracks()).toHaveLength(1);
+  });
+
+  it('stops itself at the maximum duration', async () => {
+    const { deps } = createFakes();
+    const engine = createRecorderEngine(deps);
+    const { states, saved } = observe(engine);
+
+    await engine.start(options());
+    await vi.advanceTimersByTimeAsync(59_000);
+    expect(engine.getSnapshot().state).toBe('recording');
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(states).toEqual(['acquiring', 'recording', 'stopping', 'saving', 'idle']);
+    expect(deps.storage.finalize).toHaveBeenCalledWith('recording-1', 60);
+    expect(saved).toHaveLength(1);
+  });
+
+  it('does not count paused time towards the maximum duration', async () => {
+    const { deps } = createFakes();
+    const engine = createRecorderEngine(deps);
+    const { saved } = observe(engine);
+
+    await engine.start(options());
+    await vi.advanceTimersByTimeAsync(40_000);
+    engine.pause();
+    expect(engine.getSnapshot()).toMatchObject({ paused: true, elapsed: 40 });
+
+    // The auto-stop is frozen while paused
+    await vi.advanceTimersByTimeAsync(120_000);
+    expect(engine.getSnapshot().state).toBe('recording');
+
+    engine.resume();
+    await vi.advanceTimersByTimeAsync(19_000);
+    expect(engine.getSnapshot().state).toBe('recording');
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(engine.getSnapshot().state).toBe('idle');
+    expect(deps.storage.finalize).toHaveBeenCalledWith('recording-1', 60);
+    expect(saved).toHaveLength(1);
+  });
+
+  it('cancels when the share ends while still acquiring', async () => {
+    const { deps, screenVideo, lock } = createFakes();
+    const engine = createRecorderEngine(deps);
+    const { states, saved, errors } = observe(engine);
+
+    // Hold the start at region selection, then end the share
+    let chooseRegion: (choice: { region: null } | null) => void = () => {};
+    const starting = engine.start(options({
+      chooseRegion: () => new Promise(resolve => {
+        chooseRegion = resolve;
+      }),
+    }));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(engine.getSnapshot().state).toBe('acquiring');
+
+    screenVideo.end();
+    chooseRegion({ region: null });
+    await starting;
+
+    expect(engine.getSnapshot().state).toBe('idle');
+    expect(states).toEqual(['acquiring', 'idle']);
+    expect(FakeMediaRecorder.instances).toHaveLength(0);
+    expect(deps.storage.start).not.toHaveBeenCalled();
+    expect(lock.release).toHaveBeenCalled();
+    expect(saved).toHaveLength(0);
+    expect(errors).toHaveLength(0);
+  });
+
+  it('stops and saves when the share ends while recording', async () => {
+    const { deps, screenVideo, lock } = createFakes();
+    const engine = createRecorderEngine(deps);
+    const { states, saved } = observe(engine);
+
+    await engine.start(options());
+    await vi.advanceTimersByTimeAsync(5_000);
+    screenVideo.end();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(states).toEqual(['acquiring', 'recording', 'stopping', 'saving', 'idle']);
+    expect(deps.storage.appendChunk).toHaveBeenCalled();
+    expect(deps.storage.finalize).toHaveBeenCalledWith('recording-1', 5);
+    expect(saved).toEqual([expect.objectContaining({ id: 'recording-1' })]);
+    expect(lock.release).toHaveBeenCalled();
+  });
+
+  it('stops early and reports it when a chunk fails to save', async () => {
+    const { deps } = createFakes();
+    deps.storage.appendChunk.mockRejectedValueOnce(new Error('Quota exceeded'));
+    const engine = createRecorderEngine(deps);
+    const { saved, errors } = observe(engine);
+
+    await engine.start(options());
+    FakeMediaRecorder.instances[0].ondataavailable?.({ data: new Blob(['first']) });
+    await vi.advanceTimersByTimeAsync(0);
+
+    // Kept what was saved, and said it's incomplete
+    expect(deps.storage.finalize).toHaveBeenCalledWith('recording-1', undefined);
+    expect(deps.storage.appendChunk).toHaveBeenCalledTimes(1);
+    expect(saved).toHaveLength(1);
+    expect(errors).toEqual([expect.objectContaining({ phase: 'save' })]);
+    expect(engine.getSnapshot().state).toBe('error');
+  });
+});
@@ -0,0 +1,627 @@
+// Headless recording engine: everything between pressing Record and having
+// a saved recording. That covers acquiring the screen, mic and webcam,
+// mixing and compositing, the MediaRecorder itself, pause/auto-stop timing
+// and persisting chunks, all behind one state machine:
+//
+//   idle -> acquiring -> recording -> stopping -> saving -> idle
+//              |                                    |
+//              +-------------> error <--------------+
+//
+// It doesn't touch React or the DOM directly. Browser media APIs, storage
+// and timers come in through RecorderDependencies, so they can be replaced
+// with fakes; createBrowserDependencies() wires up the real ones.
+
+import {
+  addPendingChapter,
+  appendRecordingChunk,
+  finalizePendingRecording,
+  generateRecordingId,
+  startPendingRecording,
+  RecordingChapter,
+  RecordingMeta
+} from './indexeddb';
+import {
+  buildDisplayMediaVideo,
+  buildRecorderOptions,
+  describeCapture,
+  resolveMimeType,
+  CaptureSettings
+} from './capture';
+import { createAudioMixer, AudioMixer, AudioSourceId, MixerSettings } from './audioMixer';
+import { createCompositor, Compositor, WebcamOverlay } from './compositor';
+import { createAnnotationLayer, AnnotationLayer } from './annotations';
+import { createLiveUpload, LiveUpload, UploadProgress } from './upload';
+import { defaultChapterTitle } from './chapters';
+import { acquireRecordingLock, RecordingLock } from './tabSync';
+import type { CropRegion } from './region';
+
+export type RecorderState = 'idle' | 'acquiring' | 'recording' | 'stopping' | 'saving' | 'error';
+
+export interface RecorderSnapshot {
+  state: RecorderState;
+  paused: boolean;
+  recordingId: string | null;
+  elapsed: number;           // Seconds recorded, excluding pauses
+  maxDuration: number;       // Seconds; the recording stops itself here
+  countdown: number | null;  // Seconds left before capture starts
+  chapters: RecordingChapter[];
+  mixer: AudioMixer | null;  // Mixing graph, if the recording has audio
+  annotations: { stream: MediaStream; layer: AnnotationLayer } | null;
+  webcamActive: boolean;     // Composited with a camera feed
+  error: string | null;      // Set in the error state
+}
+
+export const INITIAL_RECORDER_SNAPSHOT: RecorderSnapshot = {
+  state: 'idle',
+  paused: false,
+  recordingId: null,
+  elapsed: 0,
+  maxDuration: 0,
+  countdown: null,
+  chapters: [],
+  mixer: null,
+  annotations: null,
+  webcamActive: false,
+  error: null,
+};
+
+// What to record, fixed when a recording starts
+export interface RecordingOptions {
+  capture: CaptureSettings;
+  includeMic: boolean;
+  micDeviceId: string | null;
+  mixer: MixerSettings;
+  includeWebcam: boolean;
+  webcamOverlay: WebcamOverlay;
+  includeDrawing: boolean;
+  upload: boolean;
+  // Asks for the part of the shared surface to record (null region = all
+  // of it); resolving null cancels. Omit to record the whole surface.
+  chooseRegion?: (stream: MediaStream) => Promise<{ region: CropRegion | null } | null>;
+}
+
+export class RecorderError extends Error {
+  constructor(message: string, public phase: 'acquire' | 'save', public reason?: unknown) {
+    super(message);
+    this.name = 'RecorderError';
+  }
+}
+
+export interface RecorderEventMap {
+  change: RecorderSnapshot;
+  saved: RecordingMeta | null; // null if nothing was captured
+  error: RecorderError;
+  uploadprogress: { recordingId: string; progress: UploadProgress };
+  // Live upload finished (error null) or failed; meta is null if nothing was captured
+  uploadend: { recordingId: string; meta: RecordingMeta | null; error: unknown };
+}
+
+type Listener<K extends keyof RecorderEventMap> = (payload: RecorderEventMap[K]) => void;
+
+// Where recordings in progress are persisted
+export interface RecorderStorage {
+  generateId: () => string;
+  start: typeof startPendingRecording;
+  appendChunk: typeof appendRecordingChunk;
+  addChapter: typeof addPendingChapter;
+  finalize: typeof finalizePendingRecording;
+}
+
+export interface RecorderClock {
+  now: () => number;
+  setTimeout: (callback: () => void, ms: number) => unknown;
+  clearTimeout: (handle: unknown) => void;
+}
+
+export interface RecorderDependencies {
+  mediaDevices: Pick<MediaDevices, 'getDisplayMedia' | 'getUserMedia'>;
+  MediaRecorder: {
+    new (stream: MediaStream, options?: MediaRecorderOptions): MediaRecorder;
+    isTypeSupported: (type: string) => boolean;
+  };
+  MediaStream: { new (tracks: MediaStreamTrack[]): MediaStream };
+  storage: RecorderStorage;
+  // Builds the mixing graph; stopping the mixer releases everything it made
+  createMixer: (inputs: Partial<Record<AudioSourceId, MediaStream>>, settings: MixerSettings) => AudioMixer;
+  createCompositor: typeof createCompositor;
+  createLiveUpload: typeof createLiveUpload;
+  // Resolves null when another tab is already recording
+  acquireLock: () => Promise<RecordingLock | null>;
+  clock: RecorderClock;
+}
+
+export interface RecorderEngine {
+  getSnapshot: () => RecorderSnapshot;
+  on: <K extends keyof RecorderEventMap>(event: K, listener: Listener<K>) => () => void;
+  start: (options: RecordingOptions) => Promise<void>;
+  pause: () => void;
+  resume: () => void;
+  stop: () => void;
+  cancel: () => void; // Abandon a start that is still acquiring or counting down
+  addChapter: (title?: string) => void;
+  setWebcamOverlay: (overlay: WebcamOverlay) => void;
+  setMixerSettings: (settings: MixerSettings) => void;
+  dispose: () => void;
+}
+
+// MediaRecorder delivers a chunk this often (ms)
+const TIMESLICE = 1000;
+// The elapsed time in the snapshot is refreshed this often (ms)
+const TICK_INTERVAL = 1000;
+
+// Everything one recording holds on to, so a cancelled start can't touch
+// the resources of the next one
+interface Session {
+  id: string;
+  options: RecordingOptions;
+  lock: RecordingLock | null;
+  screen: MediaStream | null;
+  mic: MediaStream | null;
+  webcam: MediaStream | null;
+  mixer: AudioMixer | null;
+  compositor: Compositor | null;
+  recorder: MediaRecorder | null;
+  liveUpload: LiveUpload | null;
+  chunkIndex: number;
+  chunkWrites: Promise<void>; // Chained so chunks and chapters land in order
+  chunkError: { reason: unknown } | null; // First chunk that failed to persist
+  startedAt: number | null;
+  pausedAt: number | null;
+  pausedTotal: number;
+  cancelled: boolean;
+  committed: boolean;         // Past the countdown; cancel() no longer applies
+}
+
+// Thrown inside start() once the attempt has been cancelled
+class StartCancelled extends Error {}
+
+export function createBrowserDependencies(): RecorderDependencies {
+  return {
+    mediaDevices: navigator.mediaDevices,
+    MediaRecorder,
+    MediaStream,
+    storage: {
+      generateId: generateRecordingId,
+      start: startPendingRecording,
+      appendChunk: appendRecordingChunk,
+      addChapter: addPendingChapter,
+      finalize: finalizePendingRecording,
+    },
+    createMixer: (inputs, settings) => {
+      const audioContext = new AudioContext();
+      const mixer = createAudioMixer(audioContext, inputs, settings);
+      return {
+        ...mixer,
+        stop: () => {
+          mixer.stop();
+          audioContext.close();
+        },
+      };
+    },
+    createCompositor,
+    createLiveUpload,
+    acquireLock: acquireRecordingLock,
+    clock: {
+      now: () => Date.now(),
+      setTimeout: (callback, ms) => setTimeout(callback, ms),
+      clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+    },
+  };
+}
+
+export function createRecorderEngine(
+  deps: RecorderDependencies = createBrowserDependencies()
+): RecorderEngine {
+  const { clock, storage } = deps;
+  const listeners = new Map<keyof RecorderEventMap, Set<Listener<never>>>();
+  let snapshot = INITIAL_RECORDER_SNAPSHOT;
+  let session: Session | null = null;
+  let tickTimer: unknown = null;
+  let autoStopTimer: unknown = null;
+  let endCountdown: ((completed: boolean) => void) | null = null;
+
+  const emit = <K extends keyof RecorderEventMap>(event: K, payload: RecorderEventMap[K]) => {
+    listeners.get(event)?.forEach(listener => (listener as Listener<K>)(payload));
+  };
+
+  const update = (changes: Partial<RecorderSnapshot>) => {
+    snapshot = { ...snapshot, ...changes };
+    emit('change', snapshot);
+  };
+
+  // Elapsed recording time in milliseconds, excluding paused time
+  const elapsedMs = (s: Session) => {
+    if (s.startedAt === null) return 0;
+    const now = clock.now();
+    const currentPause = s.pausedAt !== null ? now - s.pausedAt : 0;
+    return now - s.startedAt - s.pausedTotal - currentPause;
+  };
+
+  const clearTimers = () => {
+    if (tickTimer !== null) clock.clearTimeout(tickTimer);
+    if (autoStopTimer !== null) clock.clearTimeout(autoStopTimer);
+    tickTimer = null;
+    autoStopTimer = null;
+  };
+
+  const scheduleTick = (s: Session) => {
+    tickTimer = clock.setTimeout(() => {
+      update({ elapsed: Math.floor(elapsedMs(s) / 1000) });
+      scheduleTick(s);
+    }, TICK_INTERVAL);
+  };
+
+  // (Re)arm the auto-stop timer for whatever recording time is left
+  const scheduleAutoStop = (s: Session) => {
+    if (autoStopTimer !== null) clock.clearTimeout(autoStopTimer);
+    autoStopTimer = clock.setTimeout(stop, Math.max(0, s.options.capture.maxDurationSec * 1000 - elapsedMs(s)));
+  };
+
+  // Stop every capture stream and the compositing/mixing built on them, and
+  // let other tabs record again
+  const release = (s: Session) => {
+    s.lock?.release();
+    s.lock = null;
+    [s.screen, s.mic, s.webcam].forEach(stream => stream?.getTracks().forEach(track => track.stop()));
+    s.compositor?.stop();
+    s.mixer?.stop();
+    s.screen = s.mic = s.webcam = null;
+    s.compositor = null;
+    s.mixer = null;
+  };
+
+  const fail = (s: Session, phase: RecorderError['phase'], message: string, reason: unknown) => {
+    console.error(phase === 'acquire' ? 'Recording error:' : 'Failed to save recording:', reason);
+    clearTimers();
+    release(s);
+    if (session === s) session = null;
+    update({ ...INITIAL_RECORDER_SNAPSHOT, state: 'error', error: message });
+    emit('error', new RecorderError(message, phase, reason));
+  };
+
+  // Count down before capture starts; resolves false if cancelled
+  const runCountdown = (seconds: number) => {
+    return new Promise<boolean>((resolve) => {
+      let timer: unknown = null;
+      const finish = (completed: boolean) => {
+        if (timer !== null) clock.clearTimeout(timer);
+        endCountdown = null;
+        update({ countdown: null });
+        resolve(completed);
+      };
+      const tick = (remaining: number) => {
+        if (remaining <= 0) {
+          finish(true);
+          return;
+        }
+        update({ countdown: remaining });
+        timer = clock.setTimeout(() => tick(remaining - 1), 1000);
+      };
+      endCountdown = finish;
+      tick(seconds);
+    });
+  };
+
+  const cancel = () => {
+    const s = session;
+    if (!s || snapshot.state !== 'acquiring' || s.committed) return;
+    s.cancelled = true;
+    endCountdown?.(false);
+    release(s);
+    session = null;
+    update(INITIAL_RECORDER_SNAPSHOT);
+  };
+
+  const stop = () => {
+    const recorder = session?.recorder;
+    if (snapshot.state !== 'recording' || !recorder || recorder.state === 'inactive') return;
+    update({ state: 'stopping' });
+    recorder.stop();
+  };
+
+  // MediaRecorder has stopped: assemble the saved recording
+  const finish = async (s: Session) => {
+    clearTimers();
+    const duration = Math.floor(elapsedMs(s) / 1000);
+    update({ state: 'saving', paused: false, elapsed: duration });
+
+    let meta: RecordingMeta | null;
+    try {
+      // Wait for the final chunk to be written before assembling the blob
+      await s.chunkWrites;
+      // After a lost chunk, the session's own duration covers what was kept
+      meta = await storage.finalize(s.id, s.chunkError ? undefined : duration);
+    } catch (err) {
+      // Chunks stay in storage and can be recovered later
+      fail(s, 'save', 'Failed to save recording', err);
+      return;
+    }
+
+    // Finish the live upload in the background
+    const liveUpload = s.liveUpload;
+    s.liveUpload = null;
+    if (liveUpload && meta) {
+      const saved = meta;
+      liveUpload.finish(saved).then(
+        () => emit('uploadend', { recordingId: s.id, meta: saved, error: null }),
+        (error) => emit('uploadend', { recordingId: s.id, meta: saved, error })
+      );
+    } else if (liveUpload) {
+      emit('uploadend', { recordingId: s.id, meta: null, error: null });
+    }
+
+    release(s);
+    if (session === s) session = null;
+    if (!s.chunkError) {
+      update(INITIAL_RECORDER_SNAPSHOT);
+      emit('saved', meta);
+      return;
+    }
+
+    // Saved up to the chunk that was lost; say so rather than pass it off as whole
+    const message = 'Recording stopped early because part of it could not be saved';
+    update({ ...INITIAL_RECORDER_SNAPSHOT, state: 'error', error: message });
+    emit('saved', meta);
+    emit('error', new RecorderError(message, 'save', s.chunkError.reason));
+  };
+
+  const start = async (options: RecordingOptions) => {
+    if (snapshot.state !== 'idle' && snapshot.state !== 'error') return;
+
+    const { capture } = options;
+    const s: Session = {
+      id: storage.generateId(),
+      options,
+      lock: null,
+      screen: null,
+      mic: null,
+      webcam: null,
+      mixer: null,
+      compositor: null,
+      recorder: null,
+      liveUpload: null,
+      chunkIndex: 0,
+      chunkWrites: Promise.resolve(),
+      chunkError: null,
+      startedAt: null,
+      pausedAt: null,
+      pausedTotal: 0,
+      cancelled: false,
+      committed: false,
+    };
+    session = s;
+    update({
+      ...INITIAL_RECORDER_SNAPSHOT,
+      state: 'acquiring',
+      recordingId: s.id,
+      maxDuration: capture.maxDurationSec,
+    });
+
+    // Called after every wait, since cancel() may have run in the meantime
+    const ensureActive = () => {
+      if (s.cancelled) throw new StartCancelled();
+    };
+
+    try {
+      s.lock = await deps.acquireLock();
+      if (!s.lock) throw new Error('Recording in progress in another tab');
+      ensureActive();
+
+      const screen = await deps.mediaDevices.getDisplayMedia({
+        video: buildDisplayMediaVideo(capture),
+        audio: true,
+      });
+      s.screen = screen;
+      ensureActive();
+
+      // Stopping the share from the browser's own UI
+      const screenTrack = screen.getVideoTracks()[0];
+      screenTrack.onended = () => {
+        if (session !== s) return;
+        if (snapshot.state === 'acquiring') cancel();
+        else stop();
+      };
+
+      // Let the user pick the part of the shared surface to record
+      let cropRegion: CropRegion | null = null;
+      if (options.chooseRegion) {
+        const choice = await options.chooseRegion(screen);
+        ensureActive();
+        if (!choice) {
+          cancel();
+          return;
+        }
+        cropRegion = choice.region;
+      }
+
+      if (options.includeMic) {
+        try {
+          s.mic = await deps.mediaDevices.getUserMedia({
+            audio: {
+              ...(options.micDeviceId && { deviceId: { ideal: options.micDeviceId } }),
+              echoCancellation: true,
+              noiseSuppression: true,
+              autoGainControl: true,
+            },
+            video: false,
+          });
+        } catch (micError) {
+          console.warn('Microphone access denied, recording without it:', micError);
+        }
+        ensureActive();
+      }
+
+      // Screen audio and mic each get their own gain and level meter, and
+      // the mix is recorded in place of the raw tracks
+      let audioTracks: MediaStreamTrack[] = [];
+      if (screen.getAudioTracks().length > 0 || s.mic) {
+        s.mixer = deps.createMixer({ screen, ...(s.mic && { mic: s.mic }) }, options.mixer);
+        audioTracks = s.mixer.stream.getAudioTracks();
+      }
+
+      if (options.includeWebcam) {
+        try {
+          s.webcam = await deps.mediaDevices.getUserMedia({
+            video: { width: { ideal: 640 }, height: { ideal: 480 } },
+            audio: false,
+          });
+        } catch (webcamError) {
+          console.warn('Webcam unavailable, recording without it:', webcamError);
+        }
+        ensureActive();
+      }
+
+      // Cropping, the webcam bubble and drawing tools are all done on a
+      // canvas, and the canvas is recorded instead of the screen
+      let videoTracks = screen.getVideoTracks();
+      let annotations: RecorderSnapshot['annotations'] = null;
+      if (s.webcam || options.includeDrawing || cropRegion) {
+        try {
+          const layer = options.includeDrawing ? createAnnotationLayer() : null;
+          s.compositor = await deps.createCompositor(
+            screen,
+            s.webcam,
+            options.webcamOverlay,
+            layer,
+            capture.frameRate,
+            cropRegion
+          );
+          videoTracks = s.compositor.stream.getVideoTracks();
+          if (layer) annotations = { stream: s.compositor.stream, layer };
+        } catch (compositorError) {
+          console.warn('Compositing unavailable, recording the screen as-is:', compositorError);
+          s.webcam?.getTracks().forEach(track => track.stop());
+          s.webcam = null;
+        }
+        ensureActive();
+      }
+      update({ mixer: s.mixer, annotations, webcamActive: s.compositor !== null && s.webcam !== null });
+
+      // Time to switch to whatever is being recorded
+      if (capture.countdownSec > 0) {
+        await runCountdown(capture.countdownSec);
+        ensureActive();
+      }
+      s.committed = true;
+
+      const finalStream = new deps.MediaStream([...videoTracks, ...audioTracks]);
+      // Preferred codec if supported, otherwise the first one that is
+      const mimeType = resolveMimeType(capture, deps.MediaRecorder.isTypeSupported);
+      const recorder = new deps.MediaRecorder(finalStream, buildRecorderOptions(capture, mimeType));
+      s.recorder = recorder;
+
+      await storage.start(s.id, mimeType, describeCapture(capture, mimeType, videoTracks[0]));
+
+      s.liveUpload = options.upload
+        ? deps.createLiveUpload(mimeType, (progress) => emit('uploadprogress', { recordingId: s.id, progress }))
+        : null;
+      if (s.liveUpload) emit('uploadprogress', { recordingId: s.id, progress: { sent: 0, total: null } });
+
+      // Persist each chunk as it arrives. Chunks after a lost one wouldn't
+      // play, so a failed write ends the recording at that point.
+      recorder.ondataavailable = (event) => {
+        if (event.data.size === 0) return;
+        s.liveUpload?.addChunk(event.data);
+        const index = s.chunkIndex++;
+        const elapsed = Math.floor(elapsedMs(s) / 1000);
+        s.chunkWrites = s.chunkWrites
+          .then(async () => {
+            if (!s.chunkError) await storage.appendChunk(s.id, index, event.data, elapsed);
+          })
+          .catch((err) => {
+            console.error('Failed to persist chunk:', err);
+            s.chunkError = { reason: err };
+            if (session === s) stop();
+          });
+      };
+      recorder.onstop = () => finish(s);
+
+      s.startedAt = clock.now();
+      recorder.start(TIMESLICE);
+      update({ state: 'recording' });
+      scheduleTick(s);
+      scheduleAutoStop(s);
+
+      // The share may have ended while the recorder was being set up
+      if (screenTrack.readyState === 'ended') stop();
+    } catch (err) {
+      if (err instanceof StartCancelled) {
+        // Drop anything acquired after the cancel
+        release(s);
+        return;
+      }
+      fail(s, 'acquire', err instanceof Error ? err.message : 'Failed to start recording', err);
+    }
+  };
+
+  return {
+    getSnapshot: () => snapshot,
+
+    on(event, listener) {
+      if (!listeners.has(event)) listeners.set(event, new Set());
+      const set = listeners.get(event)!;
+      set.add(listener as Listener<never>);
+      return () => {
+        set.delete(listener as Listener<never>);
+      };
+    },
+
+    start,
+    stop,
+    cancel,
+
+    // The timer and auto-stop freeze while paused
+    pause() {
+      const s = session;
+      if (!s?.recorder || snapshot.state !== 'recording' || s.recorder.state !== 'recording') return;
+      s.recorder.pause();
+      s.pausedAt = clock.now();
+      clearTimers();
+      update({ paused: true, elapsed: Math.floor(elapsedMs(s) / 1000) });
+    },
+
+    resume() {
+      const s = session;
+      if (!s?.recorder || snapshot.state !== 'recording' || s.recorder.state !== 'paused') return;
+      if (s.pausedAt !== null) {
+        s.pausedTotal += clock.now() - s.pausedAt;
+        s.pausedAt = null;
+      }
+      s.recorder.resume();
+      scheduleTick(s);
+      scheduleAutoStop(s);
+      update({ paused: false });
+    },
+
+    // Drop a chapter marker at the current elapsed time (same clock as the timer)
+    addChapter(title) {
+      const s = session;
+      if (!s || snapshot.state !== 'recording') return;
+      const chapter: RecordingChapter = {
+        time: Math.round(elapsedMs(s) / 100) / 10,
+        title: title?.trim() || defaultChapterTitle(snapshot.chapters.length + 1),
+      };
+      update({ chapters: [...snapshot.chapters, chapter] });
+      // Chained with the chunk writes so it lands before the recording is finalized
+      s.chunkWrites = s.chunkWrites
+        .then(() => storage.addChapter(s.id, chapter))
+        .catch((err) => console.error('Failed to save chapter:', err));
+    },
+
+    setWebcamOverlay(overlay) {
+      session?.compositor?.setWebcamOverlay(overlay);
+    },
+
+    setMixerSettings(settings) {
+      const mixer = session?.mixer;
+      mixer?.sources.forEach(id => mixer.setSource(id, settings[id]));
+    },
+
+    // Abandon a pending start and stop (and save) a recording in progress
+    dispose() {
+      cancel();
+      stop();
+      listeners.clear();
+    },
+  };
+}
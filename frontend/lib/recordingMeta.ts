@@ -0,0 +1,63 @@
+// Checks for recording metadata that comes from outside this browser's
+// library: an imported archive, or what a client sends with an upload.
+// Kept free of browser APIs so the upload routes can use it on the server.
+
+import type { RecordingCapture, RecordingChapter, RecordingMeta } from './indexeddb';
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isTime = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isNullableNumber = (value: unknown): value is number | null =>
+  value === null || (typeof value === 'number' && Number.isFinite(value));
+
+function readChapters(value: unknown): RecordingChapter[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((chapter): chapter is RecordingChapter =>
+      isObject(chapter) && isTime(chapter.time) && typeof chapter.title === 'string'
+    )
+    .map(({ time, title }) => ({ time, title }));
+}
+
+function readCapture(value: unknown): RecordingCapture | null {
+  const valid = isObject(value) &&
+    typeof value.mimeType === 'string' &&
+    isNullableNumber(value.width) &&
+    isNullableNumber(value.height) &&
+    isNullableNumber(value.frameRate) &&
+    isNullableNumber(value.videoBitsPerSecond) &&
+    isNullableNumber(value.audioBitsPerSecond);
+  if (!valid) return null;
+  const { mimeType, width, height, frameRate, videoBitsPerSecond, audioBitsPerSecond } = value as unknown as RecordingCapture;
+  return { mimeType, width, height, frameRate, videoBitsPerSecond, audioBitsPerSecond };
+}
+
+// Rebuild metadata from known fields only, or null if a required one is
+// missing. Malformed optional fields are dropped. The upload is never
+// carried over, since its share link belongs to whichever server made it.
+export function readRecordingMeta(value: unknown): RecordingMeta | null {
+  if (!isObject(value)) return null;
+  const { id, name, timestamp, duration, size } = value;
+  if (typeof id !== 'string' || typeof name !== 'string' || !isTime(timestamp) || !isTime(duration)) {
+    return null;
+  }
+
+  const meta: RecordingMeta = { id, name, timestamp, duration, size: isTime(size) ? size : 0 };
+  if (isTime(value.trimStart)) meta.trimStart = value.trimStart;
+  if (isTime(value.trimEnd)) meta.trimEnd = value.trimEnd;
+  if (value.pinned === true) meta.pinned = true;
+  if (typeof value.folder === 'string' && value.folder) meta.folder = value.folder;
+  if (typeof value.description === 'string' && value.description) meta.description = value.description;
+
+  const tags = Array.isArray(value.tags) ? value.tags.filter((tag): tag is string => typeof tag === 'string') : [];
+  if (tags.length > 0) meta.tags = tags;
+  const chapters = readChapters(value.chapters);
+  if (chapters.length > 0) meta.chapters = chapters;
+  const capture = readCapture(value.capture);
+  if (capture) meta.capture = capture;
+
+  return meta;
+}
@@ -0,0 +1,53 @@
+// Part of the shared surface to record. Stored as fractions of the frame so
+// the same region still fits if the shared window changes size, and kept in
+// localStorage so the next recording can start from it.
+
+const CROP_REGION_KEY = 'screenRecorder.cropRegion';
+
+export interface CropRegion {
+  x: number;      // Left edge, fraction of the frame width
+  y: number;      // Top edge, fraction of the frame height
+  width: number;  // Fraction of the frame width
+  height: number; // Fraction of the frame height
+}
+
+// Smallest region the selector accepts, as a fraction of each dimension
+export const MIN_REGION_SIZE = 0.05;
+
+// Clamp a region into the frame
+export function clampRegion(region: CropRegion): CropRegion {
+  const width = Math.min(Math.max(region.width, 0), 1);
+  const height = Math.min(Math.max(region.height, 0), 1);
+  return {
+    x: Math.min(Math.max(region.x, 0), 1 - width),
+    y: Math.min(Math.max(region.y, 0), 1 - height),
+    width,
+    height,
+  };
+}
+
+// Pixel rectangle of a region within a frame of the given size
+export function regionToPixels(region: CropRegion, frameWidth: number, frameHeight: number) {
+  return {
+    x: Math.round(region.x * frameWidth),
+    y: Math.round(region.y * frameHeight),
+    width: Math.max(Math.round(region.width * frameWidth), 1),
+    height: Math.max(Math.round(region.height * frameHeight), 1),
+  };
+}
+
+export function loadCropRegion(): CropRegion | null {
+  try {
+    const stored = localStorage.getItem(CROP_REGION_KEY);
+    if (!stored) return null;
+    const region = JSON.parse(stored);
+    const valid = ['x', 'y', 'width', 'height'].every(key => typeof region?.[key] === 'number');
+    return valid ? clampRegion(region) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveCropRegion(region: CropRegion): void {
+  localStorage.setItem(CROP_REGION_KEY, JSON.stringify(region));
+}
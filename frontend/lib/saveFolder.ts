@@ -0,0 +1,121 @@
+// "Save to folder": each finished recording is also written as a file into
+// a directory picked once through the File System Access API. Where that
+// API is missing, the fallback is downloading each recording instead.
+
+import type { RecordingMeta } from './indexeddb';
+
+const DOWNLOAD_RECORDINGS_KEY = 'screenRecorder.downloadRecordings';
+const SAVE_UNENCRYPTED_KEY = 'screenRecorder.saveUnencrypted';
+
+// Not in the DOM typings yet (Chromium only)
+interface PermissionedHandle extends FileSystemDirectoryHandle {
+  queryPermission(descriptor: { mode: 'readwrite' }): Promise<PermissionState>;
+  requestPermission(descriptor: { mode: 'readwrite' }): Promise<PermissionState>;
+}
+
+type DirectoryPicker = (options?: {
+  id?: string;
+  mode?: 'read' | 'readwrite';
+}) => Promise<FileSystemDirectoryHandle>;
+
+export function canSaveToFolder(): boolean {
+  return typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+}
+
+// Ask the user for a directory; rejects with an AbortError if they cancel
+export function pickFolder(): Promise<FileSystemDirectoryHandle> {
+  const showDirectoryPicker = (window as unknown as { showDirectoryPicker: DirectoryPicker }).showDirectoryPicker;
+  return showDirectoryPicker({ id: 'recordings', mode: 'readwrite' });
+}
+
+// Whether the folder can be written to now. Permission granted in an
+// earlier visit has to be asked for again, which needs a click, so only
+// pass `request` from a click handler.
+export async function canWriteToFolder(handle: FileSystemDirectoryHandle, request = false): Promise<boolean> {
+  const permissioned = handle as PermissionedHandle;
+  if ((await permissioned.queryPermission({ mode: 'readwrite' })) === 'granted') return true;
+  if (!request) return false;
+  return (await permissioned.requestPermission({ mode: 'readwrite' })) === 'granted';
+}
+
+// File name for a recording, e.g. "Recording – 2-45 PM.webm". Characters
+// file systems reject (":" on Windows among them) become dashes.
+export function recordingFileName(meta: RecordingMeta, type: string): string {
+  const base = meta.name.replace(/[\\/:*?"<>|]/g, '-').trim() || meta.id;
+  return `${base}.${type.startsWith('video/mp4') ? 'mp4' : 'webm'}`;
+}
+
+// Write a recording into the folder without overwriting anything already
+// there: a clash gets " (2)", " (3)"... Returns the name used.
+export async function writeRecordingToFolder(
+  handle: FileSystemDirectoryHandle,
+  meta: RecordingMeta,
+  blob: Blob
+): Promise<string> {
+  const fileName = recordingFileName(meta, blob.type);
+  const dot = fileName.lastIndexOf('.');
+
+  let name = fileName;
+  for (let copy = 2; await fileExists(handle, name); copy++) {
+    name = `${fileName.slice(0, dot)} (${copy})${fileName.slice(dot)}`;
+  }
+
+  const fileHandle = await handle.getFileHandle(name, { create: true });
+  const writable = await fileHandle.createWritable();
+  try {
+    await writable.write(blob);
+    await writable.close();
+  } catch (err) {
+    await writable.abort().catch(() => {});
+    throw err;
+  }
+  return name;
+}
+
+async function fileExists(handle: FileSystemDirectoryHandle, name: string): Promise<boolean> {
+  try {
+    await handle.getFileHandle(name);
+    return true;
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'NotFoundError') return false;
+    throw err;
+  }
+}
+
+// Fallback: hand the file to the browser as a download
+export function downloadRecording(meta: RecordingMeta, blob: Blob): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = recordingFileName(meta, blob.type);
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function loadDownloadRecordings(): boolean {
+  try {
+    return localStorage.getItem(DOWNLOAD_RECORDINGS_KEY) === '1';
+  } catch {
+    return false;
+  }
+}
+
+export function saveDownloadRecordings(enabled: boolean): void {
+  if (enabled) localStorage.setItem(DOWNLOAD_RECORDINGS_KEY, '1');
+  else localStorage.removeItem(DOWNLOAD_RECORDINGS_KEY);
+}
+
+// Files on disk are never encrypted, so with the vault on, copies are only
+// written once the user has opted in
+export function loadSaveUnencrypted(): boolean {
+  try {
+    return localStorage.getItem(SAVE_UNENCRYPTED_KEY) === '1';
+  } catch {
+    return false;
+  }
+}
+
+export function saveSaveUnencrypted(enabled: boolean): void {
+  if (enabled) localStorage.setItem(SAVE_UNENCRYPTED_KEY, '1');
+  else localStorage.removeItem(SAVE_UNENCRYPTED_KEY);
+}
@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { RecordingMeta } from './indexeddb';
+import { DEFAULT_RETENTION, loadRetentionSettings, RetentionSettings, selectExpiredRecordings } from './storage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const GB = 1024 * 1024 * 1024;
+const NOW = 100 * DAY_MS;
+
+// A recording made `daysAgo` days before NOW
+const recording = (id: string, daysAgo: number, sizeGB = 1, pinned = false): RecordingMeta => ({
+  id,
+  name: id,
+  timestamp: NOW - daysAgo * DAY_MS,
+  duration: 10,
+  size: sizeGB * GB,
+  ...(pinned && { pinned }),
+});
+
+// Newest first, as getAllRecordings returns them
+const library = [
+  recording('today', 0),
+  recording('last-week', 7),
+  recording('pinned', 20, 1, true),
+  recording('last-month', 30),
+  recording('last-year', 365),
+];
+
+const rules = (overrides: Partial<RetentionSettings>): RetentionSettings => ({ ...DEFAULT_RETENTION, ...overrides });
+
+const expiredIds = (settings: RetentionSettings, exempt: string[] = [], recordings = library) =>
+  selectExpiredRecordings(recordings, settings, exempt, NOW).map(rec => rec.id);
+
+describe('age rule', () => {
+  it('deletes unpinned recordings older than the limit', () => {
+    expect(expiredIds(rules({ maxAgeDays: 14 }))).toEqual(['last-month', 'last-year']);
+  });
+
+  it('keeps the newest recording however low the limit', () => {
+    const old = [recording('older', 40), recording('oldest', 50)];
+    expect(expiredIds(rules({ maxAgeDays: 0 }))).toEqual(['last-week', 'last-month', 'last-year']);
+    expect(expiredIds(rules({ maxAgeDays: 1 }), [], old)).toEqual(['oldest']);
+  });
+
+  it('keeps exempt recordings', () => {
+    expect(expiredIds(rules({ maxAgeDays: 14 }), ['last-month'])).toEqual(['last-year']);
+  });
+});
+
+describe('size rule', () => {
+  it('deletes the oldest unpinned recordings until the total fits', () => {
+    // 5 GB in all; the pinned one counts but stays
+    expect(expiredIds(rules({ maxTotalGB: 3 }))).toEqual(['last-month', 'last-year']);
+    expect(expiredIds(rules({ maxTotalGB: 5 }))).toEqual([]);
+  });
+
+  it('keeps the newest recording even when it alone is over the cap', () => {
+    expect(expiredIds(rules({ maxTotalGB: 0 }))).toEqual(['last-week', 'last-month', 'last-year']);
+    expect(expiredIds(rules({ maxTotalGB: 0.5 }), [], [recording('huge', 0, 4)])).toEqual([]);
+  });
+
+  it('keeps exempt recordings and deletes newer ones instead', () => {
+    expect(expiredIds(rules({ maxTotalGB: 3 }), ['last-year'])).toEqual(['last-week', 'last-month']);
+  });
+});
+
+describe('loadRetentionSettings', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const stored = (value: string) => {
+    vi.stubGlobal('localStorage', { getItem: () => value });
+    return loadRetentionSettings();
+  };
+
+  it('raises stored rules to their minimum', () => {
+    expect(stored(JSON.stringify({ keepLast: 0, maxAgeDays: 0, maxTotalGB: 0 }))).toEqual({
+      keepLast: 1,
+      maxAgeDays: 1,
+      maxTotalGB: 0.5,
+    });
+  });
+
+  it('turns off malformed rules', () => {
+    expect(stored(JSON.stringify({ keepLast: '3', maxAgeDays: null, extra: true }))).toEqual(DEFAULT_RETENTION);
+    expect(stored('[1, 2]')).toEqual(DEFAULT_RETENTION);
+    expect(stored('not json')).toEqual(DEFAULT_RETENTION);
+  });
+});
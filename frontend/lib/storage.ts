@@ -0,0 +1,158 @@
+// Storage quota checks and retention rules for the recordings library.
+// Browsers cap IndexedDB per origin; when the cap is hit saveVideo fails and
+// the recording is lost, so we check room up front and prune old recordings.
+
+import { deleteVideo, getAllRecordings, RecordingMeta } from './indexeddb';
+import { isObject } from './recordingMeta';
+
+const RETENTION_KEY = 'screenRecorder.retention';
+
+// Rough size of a screen recording, used to check there's room before
+// recording starts (about 4 Mbps, a busy VP9 screen capture)
+export const ESTIMATED_BYTES_PER_SECOND = 500 * 1024;
+
+export interface StorageStatus {
+  usage: number;      // Bytes used by this origin
+  quota: number;      // Bytes this origin may use
+  persisted: boolean; // Whether the browser has promised not to evict us
+}
+
+// Retention rules - null disables a rule. Pinned recordings are never deleted.
+export interface RetentionSettings {
+  keepLast: number | null;    // Keep only the newest N unpinned recordings
+  maxAgeDays: number | null;  // Delete unpinned recordings older than this
+  maxTotalGB: number | null;  // Delete oldest unpinned recordings above this total
+}
+
+export const DEFAULT_RETENTION: RetentionSettings = {
+  keepLast: null,
+  maxAgeDays: null,
+  maxTotalGB: null,
+};
+
+// Lowest value each rule takes; anything less would delete recordings as
+// soon as they're saved
+export const RETENTION_MINIMUMS: Record<keyof RetentionSettings, number> = {
+  keepLast: 1,
+  maxAgeDays: 1,
+  maxTotalGB: 0.5,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const GB = 1024 * 1024 * 1024;
+
+// Current usage and quota (null where the Storage API isn't available)
+export async function getStorageStatus(): Promise<StorageStatus | null> {
+  if (!navigator.storage?.estimate) return null;
+
+  const [estimate, persisted] = await Promise.all([
+    navigator.storage.estimate(),
+    navigator.storage.persisted?.() ?? Promise.resolve(false),
+  ]);
+  return {
+    usage: estimate.usage ?? 0,
+    quota: estimate.quota ?? 0,
+    persisted,
+  };
+}
+
+// Ask the browser to exempt our data from eviction under storage pressure
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (!navigator.storage?.persist) return false;
+  return navigator.storage.persist();
+}
+
+// Check there's room for a recording of the given length.
+// Returns the shortfall in bytes, or 0 when there's enough (or we can't tell).
+export async function getQuotaShortfall(
+  durationMs: number,
+  bytesPerSecond = ESTIMATED_BYTES_PER_SECOND
+): Promise<number> {
+  const status = await getStorageStatus();
+  if (!status || status.quota === 0) return 0;
+
+  const needed = (durationMs / 1000) * bytesPerSecond;
+  const available = status.quota - status.usage;
+  return Math.max(0, needed - available);
+}
+
+// A stored rule raised to its minimum; anything but a number turns it off
+const readRule = (value: unknown, min: number): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.max(value, min) : null;
+
+export function loadRetentionSettings(): RetentionSettings {
+  try {
+    const stored = localStorage.getItem(RETENTION_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : null;
+    if (!isObject(parsed)) return DEFAULT_RETENTION;
+    return {
+      keepLast: readRule(parsed.keepLast, RETENTION_MINIMUMS.keepLast),
+      maxAgeDays: readRule(parsed.maxAgeDays, RETENTION_MINIMUMS.maxAgeDays),
+      maxTotalGB: readRule(parsed.maxTotalGB, RETENTION_MINIMUMS.maxTotalGB),
+    };
+  } catch {
+    return DEFAULT_RETENTION;
+  }
+}
+
+export function saveRetentionSettings(settings: RetentionSettings): void {
+  localStorage.setItem(RETENTION_KEY, JSON.stringify(settings));
+}
+
+// Pick the recordings the rules would delete. `recordings` is newest-first,
+// as returned by getAllRecordings. Whatever the rules say, the newest
+// recording and those in `exempt` (e.g. one just saved) are kept.
+export function selectExpiredRecordings(
+  recordings: RecordingMeta[],
+  settings: RetentionSettings,
+  exempt: string[] = [],
+  now = Date.now()
+): RecordingMeta[] {
+  const expired = new Set<string>();
+  const unpinned = recordings.filter(rec => !rec.pinned);
+  const kept = new Set([...exempt, ...unpinned.slice(0, 1).map(rec => rec.id)]);
+  const deletable = unpinned.filter(rec => !kept.has(rec.id));
+
+  if (settings.keepLast !== null) {
+    unpinned
+      .slice(settings.keepLast)
+      .filter(rec => !kept.has(rec.id))
+      .forEach(rec => expired.add(rec.id));
+  }
+
+  if (settings.maxAgeDays !== null) {
+    const cutoff = now - settings.maxAgeDays * DAY_MS;
+    deletable
+      .filter(rec => rec.timestamp < cutoff)
+      .forEach(rec => expired.add(rec.id));
+  }
+
+  if (settings.maxTotalGB !== null) {
+    // Pinned and kept recordings count towards the cap but are never removed
+    const cap = settings.maxTotalGB * GB;
+    let total = recordings
+      .filter(rec => !expired.has(rec.id))
+      .reduce((sum, rec) => sum + rec.size, 0);
+
+    for (let i = deletable.length - 1; i >= 0 && total > cap; i--) {
+      const rec = deletable[i];
+      if (expired.has(rec.id)) continue;
+      expired.add(rec.id);
+      total -= rec.size;
+    }
+  }
+
+  return recordings.filter(rec => expired.has(rec.id));
+}
+
+// Delete whatever the stored retention rules select, sparing `exempt`.
+// Returns the deleted IDs.
+export async function enforceRetention(exempt: string[] = []): Promise<string[]> {
+  const settings = loadRetentionSettings();
+  const expired = selectExpiredRecordings(await getAllRecordings(), settings, exempt);
+
+  for (const rec of expired) {
+    await deleteVideo(rec.id);
+  }
+  return expired.map(rec => rec.id);
+}
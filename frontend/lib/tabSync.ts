@@ -0,0 +1,133 @@
+// Coordination between tabs of the app. Library and vault changes are
+// broadcast so every tab can refresh, and a Web Lock makes sure only one tab
+// records at a time.
+
+const CHANNEL_NAME = 'screenRecorder';
+const RECORDING_LOCK_NAME = 'screenRecorder.recording';
+
+export type LibraryChange = {
+  type: 'saved' | 'updated' | 'deleted';
+  id: string;
+};
+
+type TabMessage =
+  | { kind: 'library'; change: LibraryChange }
+  | { kind: 'recording'; active: boolean }
+  | { kind: 'vault' };
+
+export interface RecordingLock {
+  release: () => void;
+}
+
+// One channel per tab: a BroadcastChannel doesn't receive its own messages,
+// so a tab never reacts to changes it made itself
+let channel: BroadcastChannel | null = null;
+// Whether this tab holds the recording lock
+let holdingLock = false;
+
+function getChannel(): BroadcastChannel | null {
+  if (typeof BroadcastChannel === 'undefined') return null;
+  channel ??= new BroadcastChannel(CHANNEL_NAME);
+  return channel;
+}
+
+function post(message: TabMessage) {
+  getChannel()?.postMessage(message);
+}
+
+function subscribe(listener: (message: TabMessage) => void): () => void {
+  const target = getChannel();
+  if (!target) return () => {};
+  const handleMessage = (e: MessageEvent<TabMessage>) => listener(e.data);
+  target.addEventListener('message', handleMessage);
+  return () => target.removeEventListener('message', handleMessage);
+}
+
+export function broadcastLibraryChange(change: LibraryChange): void {
+  post({ kind: 'library', change });
+}
+
+// Listen for recordings saved, edited or deleted in other tabs
+export function onLibraryChange(listener: (change: LibraryChange) => void): () => void {
+  return subscribe((message) => {
+    if (message.kind === 'library') listener(message.change);
+  });
+}
+
+export function broadcastVaultChange(): void {
+  post({ kind: 'vault' });
+}
+
+// Listen for the vault being turned on or off, or getting a new passphrase,
+// in other tabs
+export function onVaultChange(listener: () => void): () => void {
+  return subscribe((message) => {
+    if (message.kind === 'vault') listener();
+  });
+}
+
+// Take the recording lock unless another tab holds it, in which case this
+// resolves null. Without Web Locks every tab gets a lock that guards nothing.
+export function acquireRecordingLock(): Promise<RecordingLock | null> {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    return Promise.resolve({ release: () => {} });
+  }
+
+  return new Promise((resolve, reject) => {
+    let granted = false;
+    navigator.locks
+      .request(RECORDING_LOCK_NAME, { ifAvailable: true }, (lock) => {
+        if (!lock) {
+          resolve(null);
+          return;
+        }
+        granted = true;
+        holdingLock = true;
+        post({ kind: 'recording', active: true });
+        // The lock is held until this promise settles
+        return new Promise<void>((releaseLock) => {
+          resolve({
+            release: () => {
+              holdingLock = false;
+              releaseLock();
+            },
+          });
+        });
+      })
+      .then(() => {
+        // Only now is the lock free for other tabs to see
+        if (granted) post({ kind: 'recording', active: false });
+      })
+      .catch(reject);
+  });
+}
+
+async function isRecordingElsewhere(): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !navigator.locks || holdingLock) return false;
+  const { held = [] } = await navigator.locks.query();
+  return held.some(lock => lock.name === RECORDING_LOCK_NAME);
+}
+
+// Report whether another tab is recording: now, whenever a tab starts or
+// stops, and on focus (a tab that closed mid-recording sends no message)
+export function watchRecordingElsewhere(listener: (active: boolean) => void): () => void {
+  let disposed = false;
+  const check = () => {
+    isRecordingElsewhere()
+      .then((active) => {
+        if (!disposed) listener(active);
+      })
+      .catch((err) => console.error('Failed to check the recording lock:', err));
+  };
+
+  check();
+  const unsubscribe = subscribe((message) => {
+    if (message.kind === 'recording') check();
+  });
+  window.addEventListener('focus', check);
+  return () => {
+    disposed = true;
+    unsubscribe();
+    window.removeEventListener('focus', check);
+  };
+}
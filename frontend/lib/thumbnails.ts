@@ -0,0 +1,103 @@
+// Poster and sprite-strip generation for the recordings list.
+// Frames are grabbed by seeking a detached <video> and drawing to a canvas.
+
+import {
+  getVideo,
+  getThumbnails,
+  saveThumbnails,
+  RecordingMeta,
+  RecordingThumbnails
+} from './indexeddb';
+import { loadVideo, releaseVideo, seekTo } from './media';
+
+const POSTER_WIDTH = 320;
+const SPRITE_FRAME_WIDTH = 160;
+const SPRITE_FRAME_COUNT = 10;
+const JPEG_QUALITY = 0.7;
+
+function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode thumbnail'))),
+      'image/jpeg',
+      JPEG_QUALITY
+    );
+  });
+}
+
+// Grab a poster frame and a sprite strip from a recording.
+// durationHint is used when the file itself reports no usable duration.
+export async function generateThumbnails(
+  blob: Blob,
+  durationHint: number
+): Promise<RecordingThumbnails> {
+  const video = await loadVideo(blob);
+
+  try {
+    const duration = Number.isFinite(video.duration) && video.duration > 0
+      ? video.duration
+      : durationHint;
+    const aspect = video.videoWidth > 0 ? video.videoHeight / video.videoWidth : 9 / 16;
+
+    // Poster: a frame a little way in, past any window-switching at the start
+    const poster = document.createElement('canvas');
+    poster.width = POSTER_WIDTH;
+    poster.height = Math.round(POSTER_WIDTH * aspect);
+    const posterCtx = poster.getContext('2d');
+    if (!posterCtx) throw new Error('Canvas 2D context unavailable');
+
+    await seekTo(video, duration * 0.1);
+    posterCtx.drawImage(video, 0, 0, poster.width, poster.height);
+
+    // Sprite: frames from the middle of each of SPRITE_FRAME_COUNT slices
+    const frameHeight = Math.round(SPRITE_FRAME_WIDTH * aspect);
+    const sprite = document.createElement('canvas');
+    sprite.width = SPRITE_FRAME_WIDTH * SPRITE_FRAME_COUNT;
+    sprite.height = frameHeight;
+    const spriteCtx = sprite.getContext('2d');
+    if (!spriteCtx) throw new Error('Canvas 2D context unavailable');
+
+    for (let i = 0; i < SPRITE_FRAME_COUNT; i++) {
+      await seekTo(video, ((i + 0.5) / SPRITE_FRAME_COUNT) * duration);
+      spriteCtx.drawImage(video, i * SPRITE_FRAME_WIDTH, 0, SPRITE_FRAME_WIDTH, frameHeight);
+    }
+
+    return {
+      poster: await canvasToBlob(poster),
+      sprite: await canvasToBlob(sprite),
+      frameCount: SPRITE_FRAME_COUNT,
+    };
+  } finally {
+    releaseVideo(video);
+  }
+}
+
+// Generation decodes video, so recordings are processed one at a time
+let generationQueue: Promise<unknown> = Promise.resolve();
+const inFlight = new Map<string, Promise<RecordingThumbnails | null>>();
+
+// Return stored thumbnails, generating and storing them first if missing
+export async function ensureThumbnails(
+  recording: RecordingMeta
+): Promise<RecordingThumbnails | null> {
+  const stored = await getThumbnails(recording.id);
+  if (stored) return stored;
+
+  const pending = inFlight.get(recording.id);
+  if (pending) return pending;
+
+  const task = generationQueue
+    .then(async () => {
+      const blob = await getVideo(recording.id);
+      if (!blob) return null;
+
+      const thumbnails = await generateThumbnails(blob, recording.duration);
+      await saveThumbnails(recording.id, thumbnails);
+      return thumbnails;
+    })
+    .finally(() => inFlight.delete(recording.id));
+
+  generationQueue = task.catch(() => undefined);
+  inFlight.set(recording.id, task);
+  return task;
+}
@@ -0,0 +1,69 @@
+// Re-encode a section of a recording into a new, shorter blob.
+// MediaRecorder can't cut an existing file, so the section is played back
+// into a canvas (video) and a MediaStreamDestination (audio) and recorded
+// again in real time. Playback is silent - audio only goes to the recorder.
+
+import { loadVideo, pickMimeType, playUntil, releaseVideo, seekTo } from './media';
+
+const FRAME_RATE = 30;
+
+// Trim a video blob to [start, end] seconds.
+// onProgress receives a 0-1 fraction of the section processed so far.
+export async function trimVideo(
+  blob: Blob,
+  start: number,
+  end: number,
+  onProgress?: (progress: number) => void
+): Promise<Blob> {
+  // Unmuted: the element's audio is routed to the recorder, not the speakers
+  const video = await loadVideo(blob, false);
+  const audioContext = new AudioContext();
+
+  try {
+    // Canvas matches the source resolution
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth || 1280;
+    canvas.height = video.videoHeight || 720;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+    // Route audio into the recording instead of the speakers
+    const destination = audioContext.createMediaStreamDestination();
+    audioContext.createMediaElementSource(video).connect(destination);
+
+    const stream = new MediaStream([
+      ...canvas.captureStream(FRAME_RATE).getVideoTracks(),
+      ...destination.stream.getAudioTracks(),
+    ]);
+
+    const mimeType = pickMimeType(blob.type);
+    const recorder = new MediaRecorder(stream, { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>((resolve) => {
+      recorder.onstop = () => resolve();
+    });
+
+    // Seek to the in point before recording starts
+    await seekTo(video, start);
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    const length = Math.max(end - start, 0.001);
+    recorder.start(1000);
+    await playUntil(video, end, () => {
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      onProgress?.(Math.min((video.currentTime - start) / length, 1));
+    }, FRAME_RATE);
+    recorder.stop();
+    await stopped;
+
+    stream.getTracks().forEach(track => track.stop());
+    onProgress?.(1);
+    return new Blob(chunks, { type: mimeType });
+  } finally {
+    releaseVideo(video);
+    audioContext.close();
+  }
+}
@@ -0,0 +1,173 @@
+// Client side of the resumable upload API (app/api/uploads).
+// A recording is sent as numbered chunks to an upload session, then the
+// session is completed and becomes playable at /r/<upload id>.
+// Saved recordings are sliced into fixed-size chunks, so an interrupted
+// upload resumes by asking the server which chunks it already has. Live
+// uploads send MediaRecorder's chunks as they're recorded instead.
+
+import { updateRecordingMeta, RecordingMeta, RecordingUpload } from './indexeddb';
+
+// Chunk size for uploading saved recordings
+const UPLOAD_CHUNK_SIZE = 4 * 1024 * 1024;
+// Attempts per chunk before giving up, with exponential backoff between them
+const MAX_ATTEMPTS = 4;
+
+export interface UploadProgress {
+  sent: number;         // Bytes acknowledged by the server
+  total: number | null; // Total bytes, or null while still recording
+}
+
+// Sends chunks while a recording is in progress
+export interface LiveUpload {
+  addChunk: (data: Blob) => void;
+  finish: (meta: RecordingMeta) => Promise<RecordingUpload>;
+}
+
+interface UploadSession {
+  id: string;
+  url: string;
+}
+
+// Absolute share link for an uploaded recording
+export function getShareUrl(uploadId: string): string {
+  return `${window.location.origin}/r/${uploadId}`;
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.error ?? `Upload request failed (${res.status})`);
+  }
+  return (res.status === 204 ? undefined : await res.json()) as T;
+}
+
+function createSession(mimeType: string): Promise<UploadSession> {
+  return request('/api/uploads', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ mimeType }),
+  });
+}
+
+function getReceivedChunks(uploadId: string): Promise<{ status: string; received: number[] }> {
+  return request(`/api/uploads/${uploadId}`);
+}
+
+async function putChunk(uploadId: string, index: number, data: Blob) {
+  let lastError: unknown;
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    if (attempt > 0) await delay(500 * 2 ** attempt);
+    try {
+      await request(`/api/uploads/${uploadId}/chunks/${index}`, { method: 'PUT', body: data });
+      return;
+    } catch (err) {
+      lastError = err;
+    }
+  }
+  throw lastError;
+}
+
+function completeSession(uploadId: string, chunkCount: number, meta: RecordingMeta): Promise<UploadSession> {
+  // The server keeps its own upload state; don't send ours along
+  const { upload: _upload, ...shared } = meta;
+  return request(`/api/uploads/${uploadId}/complete`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ chunkCount, meta: shared }),
+  });
+}
+
+// Upload a saved recording, resuming an earlier interrupted attempt if the
+// server still has it. The upload state is kept on the recording's metadata.
+export async function uploadRecording(
+  meta: RecordingMeta,
+  blob: Blob,
+  onProgress?: (progress: UploadProgress) => void
+): Promise<RecordingUpload> {
+  let uploadId: string | null = null;
+  let received = new Set<number>();
+
+  // Live uploads were chunked differently, so only resume our own
+  if (meta.upload && !meta.upload.complete && !meta.upload.live) {
+    try {
+      const status = await getReceivedChunks(meta.upload.id);
+      if (status.status === 'uploading') {
+        uploadId = meta.upload.id;
+        received = new Set(status.received);
+      }
+    } catch (err) {
+      console.warn('Could not resume upload, starting over:', err);
+    }
+  }
+  if (!uploadId) {
+    uploadId = (await createSession(blob.type || 'video/webm')).id;
+    await updateRecordingMeta(meta.id, { upload: { id: uploadId, complete: false } });
+  }
+
+  const chunkCount = Math.max(1, Math.ceil(blob.size / UPLOAD_CHUNK_SIZE));
+  let sent = 0;
+  for (let index = 0; index < chunkCount; index++) {
+    const chunk = blob.slice(index * UPLOAD_CHUNK_SIZE, (index + 1) * UPLOAD_CHUNK_SIZE);
+    if (!received.has(index)) await putChunk(uploadId, index, chunk);
+    sent += chunk.size;
+    onProgress?.({ sent, total: blob.size });
+  }
+
+  await completeSession(uploadId, chunkCount, meta);
+  const upload: RecordingUpload = { id: uploadId, complete: true };
+  await updateRecordingMeta(meta.id, { upload });
+  return upload;
+}
+
+// Start uploading a recording while it's still being captured. Chunks are
+// sent in order as they arrive; any that fail are retried by finish().
+export function createLiveUpload(
+  mimeType: string,
+  onProgress?: (progress: UploadProgress) => void
+): LiveUpload {
+  const session = createSession(mimeType);
+  // Reported by finish(); avoid an unhandled rejection in the meantime
+  session.catch(() => {});
+
+  const unsent = new Map<number, Blob>();
+  let chunkCount = 0;
+  let sent = 0;
+  let queue = Promise.resolve();
+
+  const send = async (index: number, data: Blob) => {
+    const { id } = await session;
+    await putChunk(id, index, data);
+    unsent.delete(index);
+    sent += data.size;
+    onProgress?.({ sent, total: null });
+  };
+
+  return {
+    addChunk(data) {
+      const index = chunkCount++;
+      unsent.set(index, data);
+      queue = queue
+        .then(() => send(index, data))
+        .catch((err) => console.warn(`Live upload of chunk ${index} failed, will retry:`, err));
+    },
+
+    async finish(meta) {
+      await queue;
+      const { id } = await session;
+      try {
+        for (const [index, data] of Array.from(unsent)) await send(index, data);
+        await completeSession(id, chunkCount, meta);
+      } catch (err) {
+        // Leave a marker so the list offers a (fresh) upload instead
+        await updateRecordingMeta(meta.id, { upload: { id, complete: false, live: true } });
+        throw err;
+      }
+      const upload: RecordingUpload = { id, complete: true, live: true };
+      await updateRecordingMeta(meta.id, { upload });
+      return upload;
+    },
+  };
+}
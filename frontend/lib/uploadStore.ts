@@ -0,0 +1,308 @@
+// Server-side storage for uploaded recordings (used by the API routes and
+// the /r/[id] page only - never import this from client components).
+// Each upload lives in its own directory under UPLOAD_DIR:
+//   <id>/upload.json   - UploadRecord (status, MIME type, RecordingMeta)
+//   <id>/chunks/<n>    - numbered chunks while the upload is in progress
+//   <id>/video         - the assembled recording once finalized
+// Chunks are written idempotently, so a client can resend any it isn't sure
+// arrived and resume from the list returned by getReceivedChunks.
+// Disk use is bounded by a quota over everything stored, and unfinished
+// uploads nobody has touched for a day are swept away.
+
+import { randomUUID } from 'crypto';
+import { createReadStream, createWriteStream, openAsBlob } from 'fs';
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { fixWebmMetadata } from './webm';
+import { readRecordingMeta } from './recordingMeta';
+import type { RecordingMeta } from './indexeddb';
+
+const UPLOAD_DIR = process.env.UPLOAD_DIR ?? path.join(process.cwd(), 'uploads');
+
+// Largest single chunk accepted (MediaRecorder chunks are far smaller)
+export const MAX_CHUNK_SIZE = 16 * 1024 * 1024;
+// Highest chunk index accepted, to bound the work finalize does
+const MAX_CHUNK_INDEX = 100000;
+// Largest recording accepted; finalizing holds the whole file in memory
+const MAX_UPLOAD_SIZE = 1024 * 1024 * 1024;
+// Total bytes kept under UPLOAD_DIR, past which new chunks are refused
+const UPLOAD_QUOTA = Number(process.env.UPLOAD_QUOTA_BYTES) || 20 * 1024 * 1024 * 1024;
+// Unfinished uploads with no new chunk for this long are deleted (ms)
+const ABANDONED_AFTER = 24 * 60 * 60 * 1000;
+// How often the sweep (which also measures disk use) runs at most (ms)
+const SWEEP_INTERVAL = 10 * 60 * 1000;
+
+// MIME types accepted for uploads: WebM or MP4, optionally with a plain
+// codecs list (e.g. "video/webm;codecs=vp9,opus"). The type is served back
+// as Content-Type on a public URL, so nothing looser gets through.
+const VIDEO_TYPE_PATTERN = /^video\/(webm|mp4)(;\s*codecs="?[A-Za-z0-9.]+(,\s*[A-Za-z0-9.]+)*"?)?$/;
+
+export function isAllowedVideoType(mimeType: string): boolean {
+  return VIDEO_TYPE_PATTERN.test(mimeType);
+}
+
+export type UploadStatus = 'uploading' | 'complete';
+
+export interface UploadRecord {
+  id: string;          // Random, unguessable ID used in share links
+  status: UploadStatus;
+  mimeType: string;    // MIME type of the recording
+  createdAt: number;   // Unix timestamp when the upload session started
+  meta: RecordingMeta | null; // Client metadata, set when finalized
+}
+
+// Thrown for bad requests; routes turn it into a 4xx response
+export class UploadError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+const ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Resolve an upload's directory, rejecting anything that isn't one of our IDs
+function uploadDir(id: string): string {
+  if (!ID_PATTERN.test(id)) throw new UploadError('Upload not found', 404);
+  return path.join(UPLOAD_DIR, id);
+}
+
+const recordPath = (id: string) => path.join(uploadDir(id), 'upload.json');
+const chunkDir = (id: string) => path.join(uploadDir(id), 'chunks');
+const videoPath = (id: string) => path.join(uploadDir(id), 'video');
+
+async function writeRecord(record: UploadRecord) {
+  // Write then rename so readers never see a half-written file
+  const target = recordPath(record.id);
+  await writeFile(`${target}.tmp`, JSON.stringify(record));
+  await rename(`${target}.tmp`, target);
+}
+
+// Turn an error from this module into a JSON response for the API routes
+export function uploadErrorResponse(err: unknown): Response {
+  if (err instanceof UploadError) {
+    return Response.json({ error: err.message }, { status: err.status });
+  }
+  console.error('Upload request failed:', err);
+  return Response.json({ error: 'Upload failed' }, { status: 500 });
+}
+
+// Read an upload's record, or null if there's no such upload
+export async function getUpload(id: string): Promise<UploadRecord | null> {
+  try {
+    const record = JSON.parse(await readFile(recordPath(id), 'utf8')) as UploadRecord;
+    // Records written before metadata was checked on the way in
+    return { ...record, meta: record.meta && readRecordingMeta(record.meta) };
+  } catch (err) {
+    if (err instanceof UploadError || (err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+async function requireUpload(id: string, status?: UploadStatus): Promise<UploadRecord> {
+  const record = await getUpload(id);
+  if (!record) throw new UploadError('Upload not found', 404);
+  if (status && record.status !== status) {
+    throw new UploadError(`Upload is already ${record.status}`, 409);
+  }
+  return record;
+}
+
+// Total size of the files under a directory, in bytes
+async function directorySize(dir: string): Promise<number> {
+  let total = 0;
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const target = path.join(dir, entry.name);
+    total += entry.isDirectory() ? await directorySize(target) : (await stat(target)).size;
+  }
+  return total;
+}
+
+// Bytes stored, as of the last sweep plus chunks written since. Overwritten
+// chunks are counted twice until the next sweep, which errs on the safe side.
+let usage = 0;
+let lastSweep = 0;
+let sweeping: Promise<void> | null = null;
+
+// Uploads being assembled. A retried finalize or a late chunk arriving
+// meanwhile would append to the same file and count its space twice.
+const assembling = new Set<string>();
+
+function checkNotAssembling(id: string) {
+  if (assembling.has(id)) throw new UploadError('Upload is being finalized', 409);
+}
+
+// Delete abandoned uploads and re-measure disk use
+async function sweep() {
+  let total = 0;
+  const ids = await readdir(UPLOAD_DIR).catch(() => [] as string[]);
+  for (const id of ids) {
+    if (!ID_PATTERN.test(id)) continue;
+    try {
+      const record = await getUpload(id);
+      if (record?.status !== 'complete') {
+        // Writing a chunk touches the chunk directory; a session whose record
+        // was never written only has its own directory to go by
+        const lastActivity = (await stat(record ? chunkDir(id) : uploadDir(id))).mtimeMs;
+        if (Date.now() - lastActivity > ABANDONED_AFTER) {
+          await rm(uploadDir(id), { recursive: true, force: true });
+          continue;
+        }
+      }
+      total += await directorySize(uploadDir(id));
+    } catch (err) {
+      console.error(`Failed to sweep upload ${id}:`, err);
+    }
+  }
+  usage = total;
+}
+
+// Sweep if it's due, sharing a run already in progress
+function sweepIfDue(): Promise<void> {
+  if (!sweeping && Date.now() - lastSweep > SWEEP_INTERVAL) {
+    lastSweep = Date.now();
+    sweeping = sweep().finally(() => {
+      sweeping = null;
+    });
+  }
+  return sweeping ?? Promise.resolve();
+}
+
+// Refuse writes that would take the upload directory past its quota
+async function reserveSpace(bytes: number) {
+  await sweepIfDue();
+  if (usage + bytes > UPLOAD_QUOTA) {
+    throw new UploadError('The server is out of space for uploads', 507);
+  }
+  usage += bytes;
+}
+
+// Start a new upload session
+export async function createUpload(mimeType: string): Promise<UploadRecord> {
+  if (!isAllowedVideoType(mimeType)) throw new UploadError('Only WebM and MP4 videos are accepted');
+  await reserveSpace(0);
+
+  const record: UploadRecord = {
+    id: randomUUID(),
+    status: 'uploading',
+    mimeType,
+    createdAt: Date.now(),
+    meta: null,
+  };
+  await mkdir(chunkDir(record.id), { recursive: true });
+  await writeRecord(record);
+  return record;
+}
+
+function checkIndex(index: number) {
+  if (!Number.isInteger(index) || index < 0 || index > MAX_CHUNK_INDEX) {
+    throw new UploadError('Invalid chunk index');
+  }
+}
+
+// Store one chunk; sending the same index again overwrites it
+export async function writeChunk(id: string, index: number, data: Uint8Array) {
+  checkIndex(index);
+  if (data.length > MAX_CHUNK_SIZE) throw new UploadError('Chunk too large', 413);
+  checkNotAssembling(id);
+  await requireUpload(id, 'uploading');
+  await reserveSpace(data.length);
+
+  const target = path.join(chunkDir(id), String(index));
+  await writeFile(`${target}.tmp`, data);
+  await rename(`${target}.tmp`, target);
+}
+
+// Indices of the chunks received so far, ascending
+export async function getReceivedChunks(id: string): Promise<number[]> {
+  const record = await requireUpload(id);
+  if (record.status === 'complete') return [];
+
+  const names = await readdir(chunkDir(id));
+  return names
+    .filter(name => /^\d+$/.test(name))
+    .map(Number)
+    .sort((a, b) => a - b);
+}
+
+// Assemble chunks 0..chunkCount-1 into the final video and record its
+// metadata, which is checked the same way as an imported library's
+export async function completeUpload(
+  id: string,
+  chunkCount: number,
+  clientMeta: unknown
+): Promise<UploadRecord> {
+  // Claimed before anything is awaited, so a concurrent call can't slip in
+  checkNotAssembling(id);
+  assembling.add(id);
+  try {
+    return await assembleUpload(id, chunkCount, clientMeta);
+  } finally {
+    assembling.delete(id);
+  }
+}
+
+async function assembleUpload(
+  id: string,
+  chunkCount: number,
+  clientMeta: unknown
+): Promise<UploadRecord> {
+  const record = await requireUpload(id, 'uploading');
+  if (!Number.isInteger(chunkCount) || chunkCount < 1) throw new UploadError('Invalid chunk count');
+  checkIndex(chunkCount - 1);
+  const meta = readRecordingMeta(clientMeta);
+  if (!meta) throw new UploadError('Missing recording metadata');
+
+  const received = new Set(await getReceivedChunks(id));
+  const missing: number[] = [];
+  for (let i = 0; i < chunkCount; i++) {
+    if (!received.has(i)) missing.push(i);
+  }
+  if (missing.length > 0) {
+    throw new UploadError(`Missing chunks: ${missing.slice(0, 20).join(', ')}`, 409);
+  }
+
+  const chunkPaths = Array.from({ length: chunkCount }, (_, i) => path.join(chunkDir(id), String(i)));
+  let totalSize = 0;
+  for (const chunkPath of chunkPaths) totalSize += (await stat(chunkPath)).size;
+  if (totalSize > MAX_UPLOAD_SIZE) throw new UploadError('Recording too large', 413);
+  // The assembled copy exists alongside the chunks until they're removed
+  await reserveSpace(totalSize);
+
+  // Concatenate in order, then make live-recorded WebM seekable like the
+  // client does before saving (a no-op for files that already are)
+  const assembled = `${videoPath(id)}.part`;
+  await rm(assembled, { force: true });
+  for (const chunkPath of chunkPaths) {
+    await pipeline(createReadStream(chunkPath), createWriteStream(assembled, { flags: 'a' }));
+  }
+  const fixed = await fixWebmMetadata(await openAsBlob(assembled));
+  await writeFile(videoPath(id), new Uint8Array(await fixed.arrayBuffer()));
+  await rm(assembled, { force: true });
+  await rm(chunkDir(id), { recursive: true, force: true });
+
+  const completed: UploadRecord = {
+    ...record,
+    status: 'complete',
+    meta: { ...meta, size: fixed.size },
+  };
+  await writeRecord(completed);
+  return completed;
+}
+
+// Open a finished upload's video, optionally a byte range of it
+export async function readVideo(
+  id: string,
+  range?: { start: number; end: number }
+): Promise<ReadableStream<Uint8Array>> {
+  const record = await getUpload(id);
+  if (record?.status !== 'complete') throw new UploadError('Recording not found', 404);
+  const stream = createReadStream(videoPath(id), range);
+  return Readable.toWeb(stream) as ReadableStream<Uint8Array>;
+}
+
+export async function getVideoSize(id: string): Promise<number> {
+  return (await stat(videoPath(id))).size;
+}
@@ -0,0 +1,81 @@
+// React binding for the recorder engine. The engine is created after mount
+// (it needs browser APIs) and its snapshot is mirrored into state. Event
+// handlers are read through a ref, so they always see the latest render's
+// closures without restarting anything.
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  createRecorderEngine,
+  INITIAL_RECORDER_SNAPSHOT,
+  RecorderEngine,
+  RecorderEventMap,
+  RecorderSnapshot,
+  RecordingOptions
+} from './recorderEngine';
+import type { MixerSettings } from './audioMixer';
+import type { WebcamOverlay } from './compositor';
+
+export type RecorderHandlers = {
+  [K in Exclude<keyof RecorderEventMap, 'change'>]?: (payload: RecorderEventMap[K]) => void;
+};
+
+export interface ScreenRecorderControls extends RecorderSnapshot {
+  start: (options: RecordingOptions) => Promise<void>;
+  pause: () => void;
+  resume: () => void;
+  stop: () => void;
+  cancel: () => void;
+  addChapter: (title?: string) => void;
+  setWebcamOverlay: (overlay: WebcamOverlay) => void;
+  setMixerSettings: (settings: MixerSettings) => void;
+}
+
+export function useScreenRecorder(handlers: RecorderHandlers = {}): ScreenRecorderControls {
+  const [snapshot, setSnapshot] = useState<RecorderSnapshot>(INITIAL_RECORDER_SNAPSHOT);
+  const engineRef = useRef<RecorderEngine | null>(null);
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    const engine = createRecorderEngine();
+    engineRef.current = engine;
+    const unsubscribers = [
+      engine.on('change', setSnapshot),
+      engine.on('saved', (meta) => handlersRef.current.saved?.(meta)),
+      engine.on('error', (error) => handlersRef.current.error?.(error)),
+      engine.on('uploadprogress', (payload) => handlersRef.current.uploadprogress?.(payload)),
+      engine.on('uploadend', (payload) => handlersRef.current.uploadend?.(payload)),
+    ];
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      engine.dispose();
+      engineRef.current = null;
+    };
+  }, []);
+
+  const start = useCallback(async (options: RecordingOptions) => {
+    await engineRef.current?.start(options);
+  }, []);
+  const pause = useCallback(() => engineRef.current?.pause(), []);
+  const resume = useCallback(() => engineRef.current?.resume(), []);
+  const stop = useCallback(() => engineRef.current?.stop(), []);
+  const cancel = useCallback(() => engineRef.current?.cancel(), []);
+  const addChapter = useCallback((title?: string) => engineRef.current?.addChapter(title), []);
+  const setWebcamOverlay = useCallback((overlay: WebcamOverlay) => engineRef.current?.setWebcamOverlay(overlay), []);
+  const setMixerSettings = useCallback((settings: MixerSettings) => engineRef.current?.setMixerSettings(settings), []);
+
+  return {
+    ...snapshot,
+    start,
+    pause,
+    resume,
+    stop,
+    cancel,
+    addChapter,
+    setWebcamOverlay,
+    setMixerSettings,
+  };
+}
@@ -0,0 +1,218 @@
+// Encryption behind the vault (passphrase-protected storage; the vault's
+// lifecycle functions are in indexeddb.ts). Stored content is encrypted with
+// AES-GCM under a random data key. Data keys are stored wrapped by a key
+// derived from the passphrase with PBKDF2, and unwrapped copies only live
+// in memory while the vault is unlocked.
+
+export const PBKDF2_ITERATIONS = 600_000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+const AUTO_LOCK_KEY = 'screenRecorder.vaultAutoLock';
+
+// Minutes of inactivity before the vault locks itself (0 = never)
+export const AUTO_LOCK_OPTIONS = [5, 15, 30, 60, 0];
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+// Data key, encrypted with the passphrase key
+export interface WrappedKey {
+  id: string;
+  iv: Uint8Array;
+  key: ArrayBuffer;
+}
+
+export interface VaultConfig {
+  salt: Uint8Array;
+  iterations: number;
+  keys: WrappedKey[];          // More than one only while re-encrypting
+  currentKeyId: string | null; // Key new data is sealed with; null while decrypting to turn the vault off
+  sealMetadata: boolean;       // Names, notes, comments and captions too, not just video
+  resealing: boolean;          // Re-encryption was started; finished on the next unlock if interrupted
+}
+
+// Encrypted stand-in for a stored blob or JSON value
+export interface SealedValue {
+  sealed: 'blob' | 'json';
+  keyId: string;
+  iv: Uint8Array;
+  data: ArrayBuffer;
+  type?: string; // MIME type of a sealed blob
+}
+
+export class VaultError extends Error {
+  constructor(message: string, public reason: 'locked' | 'passphrase') {
+    super(message);
+    this.name = 'VaultError';
+  }
+}
+
+// Unwrapped data keys by ID, while unlocked
+const keyring = new Map<string, CryptoKey>();
+
+function randomBytes(length: number): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+function lockedError(): VaultError {
+  return new VaultError('Recordings are locked - enter the passphrase to unlock them', 'locked');
+}
+
+async function derivePassphraseKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+}
+
+async function wrapDataKey(id: string, dataKey: CryptoKey, passphraseKey: CryptoKey): Promise<WrappedKey> {
+  const iv = randomBytes(IV_BYTES);
+  const key = await crypto.subtle.wrapKey('raw', dataKey, passphraseKey, { name: 'AES-GCM', iv });
+  return { id, iv, key };
+}
+
+async function unwrapDataKey(wrapped: WrappedKey, passphraseKey: CryptoKey, extractable: boolean): Promise<CryptoKey> {
+  return crypto.subtle.unwrapKey(
+    'raw',
+    wrapped.key,
+    passphraseKey,
+    { name: 'AES-GCM', iv: wrapped.iv as Uint8Array<ArrayBuffer> },
+    'AES-GCM',
+    extractable,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// Unwrap every key in the config with a passphrase. A wrong passphrase
+// fails authentication and is reported as such.
+async function unwrapAll(config: VaultConfig, passphrase: string, extractable: boolean): Promise<Map<string, CryptoKey>> {
+  const passphraseKey = await derivePassphraseKey(passphrase, config.salt as Uint8Array<ArrayBuffer>, config.iterations);
+  const keys = new Map<string, CryptoKey>();
+  try {
+    for (const wrapped of config.keys) {
+      keys.set(wrapped.id, await unwrapDataKey(wrapped, passphraseKey, extractable));
+    }
+  } catch {
+    throw new VaultError('Wrong passphrase', 'passphrase');
+  }
+  return keys;
+}
+
+// Config for a passphrase: a new data key becomes current, and `carried`
+// keys (still in use by data not yet re-encrypted) are wrapped alongside it
+export async function createVaultConfig(
+  passphrase: string,
+  sealMetadata: boolean,
+  carried: Map<string, CryptoKey> = new Map()
+): Promise<VaultConfig> {
+  const salt = randomBytes(SALT_BYTES);
+  const passphraseKey = await derivePassphraseKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  const currentKeyId = crypto.randomUUID();
+
+  const keys = [await wrapDataKey(currentKeyId, dataKey, passphraseKey)];
+  for (const [id, key] of Array.from(carried)) {
+    keys.push(await wrapDataKey(id, key, passphraseKey));
+  }
+
+  // Keep a non-extractable copy in memory
+  keyring.set(currentKeyId, await unwrapDataKey(keys[0], passphraseKey, false));
+  return { salt, iterations: PBKDF2_ITERATIONS, keys, currentKeyId, sealMetadata, resealing: false };
+}
+
+// Load the config's keys into memory
+export async function unlockKeys(config: VaultConfig, passphrase: string): Promise<void> {
+  const keys = await unwrapAll(config, passphrase, false);
+  keys.forEach((key, id) => keyring.set(id, key));
+}
+
+// Check a passphrase and return exportable copies of its keys, for
+// wrapping them again under a new passphrase
+export function exportKeys(config: VaultConfig, passphrase: string): Promise<Map<string, CryptoKey>> {
+  return unwrapAll(config, passphrase, true);
+}
+
+export function forgetKeys(): void {
+  keyring.clear();
+}
+
+export function hasKeys(config: VaultConfig): boolean {
+  return config.keys.every(wrapped => keyring.has(wrapped.id));
+}
+
+export function isSealed(value: unknown): value is SealedValue {
+  return typeof value === 'object' && value !== null && 'sealed' in value && 'keyId' in value;
+}
+
+// Key a value should be sealed with under this config, or null for plain
+function targetKeyId(config: VaultConfig | null, metadata: boolean): string | null {
+  if (!config || (metadata && !config.sealMetadata)) return null;
+  return config.currentKeyId;
+}
+
+// Whether a stored value is already in the form the config asks for
+export function isSealedAsConfigured(value: unknown, config: VaultConfig | null, metadata = false): boolean {
+  const keyId = targetKeyId(config, metadata);
+  return isSealed(value) ? value.keyId === keyId : keyId === null;
+}
+
+async function encrypt(keyId: string, data: BufferSource): Promise<Omit<SealedValue, 'sealed'>> {
+  const key = keyring.get(keyId);
+  if (!key) throw lockedError();
+  const iv = randomBytes(IV_BYTES);
+  return { keyId, iv, data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data) };
+}
+
+async function decrypt(value: SealedValue): Promise<ArrayBuffer> {
+  const key = keyring.get(value.keyId);
+  if (!key) throw lockedError();
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: value.iv as Uint8Array<ArrayBuffer> }, key, value.data);
+}
+
+// Seal a blob for storage (unchanged when the vault is off)
+export async function sealBlob(blob: Blob, config: VaultConfig | null): Promise<Blob | SealedValue> {
+  const keyId = targetKeyId(config, false);
+  if (keyId === null) return blob;
+  return { sealed: 'blob', type: blob.type, ...(await encrypt(keyId, await blob.arrayBuffer())) };
+}
+
+export async function openBlob(value: Blob | SealedValue): Promise<Blob> {
+  if (!isSealed(value)) return value;
+  return new Blob([await decrypt(value)], { type: value.type });
+}
+
+// Seal metadata for storage (unchanged unless the vault seals metadata)
+export async function sealJson<T>(value: T, config: VaultConfig | null): Promise<T | SealedValue> {
+  const keyId = targetKeyId(config, true);
+  if (keyId === null) return value;
+  return { sealed: 'json', ...(await encrypt(keyId, new TextEncoder().encode(JSON.stringify(value)))) };
+}
+
+export async function openJson<T>(value: T | SealedValue): Promise<T> {
+  if (!isSealed(value)) return value;
+  return JSON.parse(new TextDecoder().decode(await decrypt(value))) as T;
+}
+
+export function loadAutoLockMinutes(): number {
+  try {
+    const stored = localStorage.getItem(AUTO_LOCK_KEY);
+    const minutes = stored === null ? NaN : Number(stored);
+    return AUTO_LOCK_OPTIONS.includes(minutes) ? minutes : DEFAULT_AUTO_LOCK_MINUTES;
+  } catch {
+    return DEFAULT_AUTO_LOCK_MINUTES;
+  }
+}
+
+export function saveAutoLockMinutes(minutes: number): void {
+  localStorage.setItem(AUTO_LOCK_KEY, String(minutes));
+}
@@ -0,0 +1,399 @@
+// WebM (EBML) post-processing for MediaRecorder output.
+// MediaRecorder streams WebM while recording, so it never knows the final
+// length: the Segment and Clusters have "unknown" sizes, Info has no
+// Duration and there is no Cues index. Browsers then report the duration
+// as Infinity and can only seek within what they've already loaded.
+// fixWebmMetadata rewrites the file with known sizes, a real Duration,
+// a Cues index (one cue per keyframe cluster) and a SeekHead pointing at it.
+
+// EBML element IDs used here (marker bits included, as written in the spec)
+const ID = {
+  EBML: 0x1a45dfa3,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Info: 0x1549a966,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackType: 0x83,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  BlockDuration: 0x9b,
+  ReferenceBlock: 0xfb,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+  Tags: 0x1254c367,
+  Chapters: 0x1043a770,
+  Attachments: 0x1941a469,
+  Void: 0xec,
+} as const;
+
+// Segment children - an unknown-size Cluster ends where one of these starts
+const SEGMENT_CHILDREN = new Set<number>([
+  ID.SeekHead, ID.Info, ID.Tracks, ID.Cluster, ID.Cues,
+  ID.Tags, ID.Chapters, ID.Attachments,
+]);
+
+// Segment children that are regenerated rather than copied
+const REBUILT_CHILDREN = new Set<number>([
+  ID.SeekHead, ID.Info, ID.Cluster, ID.Cues, ID.Void,
+]);
+
+const TRACK_TYPE_VIDEO = 1;
+
+interface EbmlElement {
+  id: number;
+  start: number;        // Offset of the element ID
+  dataStart: number;    // Offset of the payload
+  dataEnd: number;      // End of the payload
+  unknownSize: boolean; // Size field was all ones ("until parent ends")
+  truncated: boolean;   // Declared size runs past the available bytes
+}
+
+interface VarInt {
+  value: number;
+  length: number;
+}
+
+// ---------------------------------------------------------------------------
+// Reading
+// ---------------------------------------------------------------------------
+
+// Width of a variable-length integer, from the leading zeros of its first byte
+function varIntLength(first: number, maxLength: number): number {
+  for (let length = 1; length <= maxLength; length++) {
+    if (first & (0x80 >> (length - 1))) return length;
+  }
+  return 0;
+}
+
+// Read an element ID, keeping its marker bits
+function readId(bytes: Uint8Array, offset: number): VarInt | null {
+  const length = varIntLength(bytes[offset], 4);
+  if (!length || offset + length > bytes.length) return null;
+
+  let value = 0;
+  for (let i = 0; i < length; i++) value = value * 256 + bytes[offset + i];
+  return { value, length };
+}
+
+// Read a size (or track number) vint, stripping its marker bit
+function readVarInt(
+  bytes: Uint8Array,
+  offset: number
+): (VarInt & { unknown: boolean }) | null {
+  const length = varIntLength(bytes[offset], 8);
+  if (!length || offset + length > bytes.length) return null;
+
+  const firstMask = 0xff >> length;
+  let value = bytes[offset] & firstMask;
+  let unknown = value === firstMask;
+  for (let i = 1; i < length; i++) {
+    const byte = bytes[offset + i];
+    value = value * 256 + byte;
+    if (byte !== 0xff) unknown = false;
+  }
+  return { value, length, unknown };
+}
+
+// Read the element header at offset; its payload is clamped to parentEnd
+function readElement(
+  bytes: Uint8Array,
+  offset: number,
+  parentEnd: number
+): EbmlElement | null {
+  const id = readId(bytes, offset);
+  if (!id) return null;
+  const size = readVarInt(bytes, offset + id.length);
+  if (!size) return null;
+
+  const dataStart = offset + id.length + size.length;
+  const declaredEnd = size.unknown ? parentEnd : dataStart + size.value;
+  return {
+    id: id.value,
+    start: offset,
+    dataStart,
+    dataEnd: Math.min(declaredEnd, parentEnd),
+    unknownSize: size.unknown,
+    truncated: declaredEnd > parentEnd,
+  };
+}
+
+// Find where an unknown-size Cluster ends: at the next Segment-level
+// element, or at the last complete child before the data runs out
+function findClusterEnd(bytes: Uint8Array, start: number, end: number): number {
+  let offset = start;
+  while (offset < end) {
+    const id = readId(bytes, offset);
+    if (!id || SEGMENT_CHILDREN.has(id.value)) break;
+
+    const child = readElement(bytes, offset, end);
+    if (!child || child.truncated) break;
+    offset = child.dataEnd;
+  }
+  return offset;
+}
+
+// Read the child elements of [start, end)
+function readChildren(bytes: Uint8Array, start: number, end: number): EbmlElement[] {
+  const children: EbmlElement[] = [];
+  let offset = start;
+
+  while (offset < end) {
+    const child = readElement(bytes, offset, end);
+    if (!child) break;
+    if (child.unknownSize && child.id === ID.Cluster) {
+      child.dataEnd = findClusterEnd(bytes, child.dataStart, end);
+    }
+    children.push(child);
+    if (child.truncated) break;
+    offset = child.dataEnd;
+  }
+  return children;
+}
+
+// Read an unsigned integer payload
+function readUint(bytes: Uint8Array, element: EbmlElement): number {
+  let value = 0;
+  for (let i = element.dataStart; i < element.dataEnd; i++) value = value * 256 + bytes[i];
+  return value;
+}
+
+// Read the track number, relative timecode and keyframe flag of a (Simple)Block
+function readBlockHeader(bytes: Uint8Array, block: EbmlElement) {
+  const track = readVarInt(bytes, block.dataStart);
+  if (!track) return null;
+
+  const offset = block.dataStart + track.length;
+  if (offset + 3 > block.dataEnd) return null;
+
+  // Relative timecode is a signed 16-bit integer
+  const relative = ((bytes[offset] << 8) | bytes[offset + 1]) << 16 >> 16;
+  const keyframe = (bytes[offset + 2] & 0x80) !== 0;
+  return { track: track.value, relative, keyframe };
+}
+
+// ---------------------------------------------------------------------------
+// Writing
+// ---------------------------------------------------------------------------
+
+// Encode an unsigned integer big-endian, in `width` bytes (default: minimal)
+function encodeUint(value: number, width?: number): Uint8Array {
+  let length = width ?? 1;
+  if (width === undefined) {
+    while (value >= 2 ** (8 * length)) length++;
+  }
+  const out = new Uint8Array(length);
+  let rest = value;
+  for (let i = length - 1; i >= 0; i--) {
+    out[i] = rest % 256;
+    rest = Math.floor(rest / 256);
+  }
+  return out;
+}
+
+// Encode an element size as the shortest vint that isn't the reserved all-ones value
+function encodeSize(size: number): Uint8Array {
+  let length = 1;
+  while (size >= 2 ** (7 * length) - 1) length++;
+  const out = encodeUint(size, length);
+  out[0] |= 0x80 >> (length - 1);
+  return out;
+}
+
+function encodeFloat(value: number): Uint8Array {
+  const out = new Uint8Array(8);
+  new DataView(out.buffer).setFloat64(0, value);
+  return out;
+}
+
+function byteLength(parts: Uint8Array[]): number {
+  return parts.reduce((total, part) => total + part.length, 0);
+}
+
+// Build an element from payload parts; payloads are referenced, not copied
+function buildElement(id: number, payload: Uint8Array[]): Uint8Array[] {
+  return [encodeUint(id), encodeSize(byteLength(payload)), ...payload];
+}
+
+// ---------------------------------------------------------------------------
+// Rewriting
+// ---------------------------------------------------------------------------
+
+interface ClusterInfo {
+  payload: Uint8Array[]; // Child elements, copied as-is
+  time: number;          // Cluster timecode
+  keyframe: boolean;     // First block of the cue track is a keyframe
+}
+
+// Rewrite a MediaRecorder WebM file. Returns null when the input isn't
+// WebM, can't be parsed, or is already seekable.
+function rewriteWebm(bytes: Uint8Array): Uint8Array[] | null {
+  const top = readChildren(bytes, 0, bytes.length);
+  const header = top[0];
+  const segment = top.find(el => el.id === ID.Segment);
+  if (header?.id !== ID.EBML || !segment) return null;
+
+  const children = readChildren(bytes, segment.dataStart, segment.dataEnd);
+  const info = children.find(el => el.id === ID.Info);
+  const tracks = children.find(el => el.id === ID.Tracks);
+  const clusters = children.filter(el => el.id === ID.Cluster);
+  if (!info || !tracks || clusters.length === 0) return null;
+
+  const infoChildren = readChildren(bytes, info.dataStart, info.dataEnd);
+  const hasDuration = infoChildren.some(el => el.id === ID.Duration);
+  const hasCues = children.some(el => el.id === ID.Cues);
+  if (hasDuration && hasCues && !segment.unknownSize) return null;
+
+  const slice = (el: EbmlElement) => bytes.subarray(el.start, el.dataEnd);
+
+  // Cue on the video track, or the first track for audio-only files
+  const trackEntries = readChildren(bytes, tracks.dataStart, tracks.dataEnd)
+    .filter(el => el.id === ID.TrackEntry)
+    .map(entry => {
+      const fields = readChildren(bytes, entry.dataStart, entry.dataEnd);
+      const number = fields.find(el => el.id === ID.TrackNumber);
+      const type = fields.find(el => el.id === ID.TrackType);
+      return {
+        number: number ? readUint(bytes, number) : 0,
+        type: type ? readUint(bytes, type) : 0,
+      };
+    });
+  const cueTrack = (trackEntries.find(t => t.type === TRACK_TYPE_VIDEO) ?? trackEntries[0])?.number ?? 1;
+
+  // Collect cluster payloads, timecodes and where each track's last block
+  // starts and how long it lasts. SimpleBlocks don't carry a duration, so
+  // it is taken to be the gap between the track's last two blocks.
+  const trackEnds = new Map<number, { time: number; duration: number }>();
+  const clusterInfos: ClusterInfo[] = clusters.map(cluster => {
+    const clusterChildren = readChildren(bytes, cluster.dataStart, cluster.dataEnd)
+      .filter(el => !el.truncated);
+    const timecode = clusterChildren.find(el => el.id === ID.Timecode);
+    const time = timecode ? readUint(bytes, timecode) : 0;
+    let keyframe: boolean | null = null;
+
+    for (const child of clusterChildren) {
+      let block: ReturnType<typeof readBlockHeader> = null;
+      let blockDuration: number | null = null;
+      if (child.id === ID.SimpleBlock) {
+        block = readBlockHeader(bytes, child);
+      } else if (child.id === ID.BlockGroup) {
+        // A Block is a keyframe when it references no other block
+        const groupChildren = readChildren(bytes, child.dataStart, child.dataEnd);
+        const inner = groupChildren.find(el => el.id === ID.Block);
+        block = inner ? readBlockHeader(bytes, inner) : null;
+        if (block) {
+          block.keyframe = !groupChildren.some(el => el.id === ID.ReferenceBlock);
+        }
+        const duration = groupChildren.find(el => el.id === ID.BlockDuration);
+        if (duration) blockDuration = readUint(bytes, duration);
+      }
+      if (!block) continue;
+
+      const blockTime = time + block.relative;
+      const previous = trackEnds.get(block.track);
+      if (!previous || blockTime >= previous.time) {
+        trackEnds.set(block.track, {
+          time: blockTime,
+          duration: blockDuration ?? (previous ? blockTime - previous.time : 0),
+        });
+      }
+      if (keyframe === null && block.track === cueTrack) keyframe = block.keyframe;
+    }
+
+    return { payload: clusterChildren.map(slice), time, keyframe: keyframe === true };
+  });
+
+  // Info with the real duration, in TimecodeScale units like the block times
+  const endTime = Math.max(0, ...Array.from(trackEnds.values(), end => end.time + end.duration));
+  const infoParts = buildElement(ID.Info, [
+    ...infoChildren
+      .filter(el => el.id !== ID.Duration && el.id !== ID.Void)
+      .map(slice),
+    ...buildElement(ID.Duration, [encodeFloat(endTime)]),
+  ]);
+  const tracksParts = [slice(tracks)];
+  const otherParts = children
+    .filter(el => !REBUILT_CHILDREN.has(el.id) && el.id !== ID.Tracks && !el.unknownSize)
+    .map(slice);
+  const clusterParts = clusterInfos.map(c => buildElement(ID.Cluster, c.payload));
+
+  // Cue every keyframe cluster (or every cluster if none could be identified)
+  const cueIndexes = clusterInfos
+    .map((c, index) => (c.keyframe ? index : -1))
+    .filter(index => index >= 0);
+  if (cueIndexes.length === 0) cueIndexes.push(...clusterInfos.map((_, index) => index));
+
+  // Times and positions use fixed 8-byte fields so sizes don't depend on values
+  const buildCues = (clusterPositions: number[]) =>
+    buildElement(ID.Cues, cueIndexes.flatMap(index =>
+      buildElement(ID.CuePoint, [
+        ...buildElement(ID.CueTime, [encodeUint(clusterInfos[index].time, 8)]),
+        ...buildElement(ID.CueTrackPositions, [
+          ...buildElement(ID.CueTrack, [encodeUint(cueTrack)]),
+          ...buildElement(ID.CueClusterPosition, [encodeUint(clusterPositions[index] ?? 0, 8)]),
+        ]),
+      ])
+    ));
+
+  const buildSeek = (id: number, position: number) =>
+    buildElement(ID.Seek, [
+      ...buildElement(ID.SeekID, [encodeUint(id)]),
+      ...buildElement(ID.SeekPosition, [encodeUint(position, 8)]),
+    ]);
+  const buildSeekHead = (infoPos: number, tracksPos: number, cuesPos: number) =>
+    buildElement(ID.SeekHead, [
+      ...buildSeek(ID.Info, infoPos),
+      ...buildSeek(ID.Tracks, tracksPos),
+      ...buildSeek(ID.Cues, cuesPos),
+    ]);
+
+  // Layout (positions relative to the Segment payload):
+  // SeekHead, Info, Tracks, Cues, other elements, Clusters
+  const infoPos = byteLength(buildSeekHead(0, 0, 0));
+  const tracksPos = infoPos + byteLength(infoParts);
+  const cuesPos = tracksPos + byteLength(tracksParts);
+  let clusterPos = cuesPos + byteLength(buildCues([])) + byteLength(otherParts);
+
+  const clusterPositions = clusterParts.map(parts => {
+    const position = clusterPos;
+    clusterPos += byteLength(parts);
+    return position;
+  });
+
+  return [
+    slice(header),
+    ...buildElement(ID.Segment, [
+      ...buildSeekHead(infoPos, tracksPos, cuesPos),
+      ...infoParts,
+      ...tracksParts,
+      ...buildCues(clusterPositions),
+      ...otherParts,
+      ...clusterParts.flat(),
+    ]),
+  ];
+}
+
+// Add duration and seek metadata to a recorded WebM blob.
+// Anything that isn't WebM, or is already seekable, is returned unchanged.
+export async function fixWebmMetadata(blob: Blob): Promise<Blob> {
+  try {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const parts = rewriteWebm(bytes);
+    return parts ? new Blob(parts as BlobPart[], { type: blob.type }) : blob;
+  } catch (err) {
+    console.warn('Could not fix WebM metadata, keeping original:', err);
+    return blob;
+  }
+}
@@ -0,0 +1,175 @@
+// Minimal ZIP support for library export/import.
+// Entries are written uncompressed (STORE) since video is already compressed.
+// Reading handles STORE and DEFLATE (through DecompressionStream). There is
+// no ZIP64 support, so archives are limited to 4 GB.
+
+export interface ZipEntry {
+  name: string;
+  data: Blob;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const MAX_ZIP32_SIZE = 0xffffffff;
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_UTF8 = 0x0800;
+const VERSION = 20;
+
+// CRC-32 lookup table (IEEE polynomial, reflected)
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time fields used by ZIP headers
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+// Build a ZIP archive. Entry data is referenced, not copied, except for the
+// one-at-a-time read needed to compute each CRC.
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const stamp = dosDateTime(new Date());
+  const parts: BlobPart[] = [];
+  const centralHeaders: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const size = entry.data.size;
+    const crc = crc32(new Uint8Array(await entry.data.arrayBuffer()));
+
+    const local = new Uint8Array(LOCAL_HEADER_SIZE + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    localView.setUint16(4, VERSION, true);
+    localView.setUint16(6, FLAG_UTF8, true);
+    localView.setUint16(8, METHOD_STORE, true);
+    localView.setUint16(10, stamp.time, true);
+    localView.setUint16(12, stamp.date, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, size, true);
+    localView.setUint32(22, size, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, LOCAL_HEADER_SIZE);
+
+    const central = new Uint8Array(CENTRAL_HEADER_SIZE + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    centralView.setUint16(4, VERSION, true);
+    centralView.setUint16(6, VERSION, true);
+    centralView.setUint16(8, FLAG_UTF8, true);
+    centralView.setUint16(10, METHOD_STORE, true);
+    centralView.setUint16(12, stamp.time, true);
+    centralView.setUint16(14, stamp.date, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, size, true);
+    centralView.setUint32(24, size, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, CENTRAL_HEADER_SIZE);
+
+    parts.push(local, entry.data);
+    centralHeaders.push(central);
+    offset += local.length + size;
+    if (offset > MAX_ZIP32_SIZE) throw new Error('Archive is larger than 4 GB');
+  }
+
+  const centralSize = centralHeaders.reduce((sum, header) => sum + header.length, 0);
+  const end = new Uint8Array(END_OF_CENTRAL_DIRECTORY_SIZE);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralHeaders, end] as BlobPart[], { type: 'application/zip' });
+}
+
+// Read a ZIP archive into a name -> data map. Entry data is sliced from the
+// source blob (STORE) or inflated on demand, so large archives aren't loaded whole.
+export async function readZip(blob: Blob): Promise<Map<string, Blob>> {
+  // The end-of-central-directory record sits in the last 22 bytes + comment
+  const tailSize = Math.min(blob.size, END_OF_CENTRAL_DIRECTORY_SIZE + MAX_COMMENT_SIZE);
+  const tail = new Uint8Array(await blob.slice(blob.size - tailSize).arrayBuffer());
+  const tailView = new DataView(tail.buffer);
+
+  let endOffset = -1;
+  for (let i = tail.length - END_OF_CENTRAL_DIRECTORY_SIZE; i >= 0; i--) {
+    if (tailView.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) throw new Error('Not a ZIP archive');
+
+  const entryCount = tailView.getUint16(endOffset + 10, true);
+  const centralSize = tailView.getUint32(endOffset + 12, true);
+  const centralOffset = tailView.getUint32(endOffset + 16, true);
+
+  const central = new Uint8Array(await blob.slice(centralOffset, centralOffset + centralSize).arrayBuffer());
+  const centralView = new DataView(central.buffer);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, Blob>();
+
+  let position = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (centralView.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    const method = centralView.getUint16(position + 10, true);
+    const compressedSize = centralView.getUint32(position + 20, true);
+    const nameLength = centralView.getUint16(position + 28, true);
+    const extraLength = centralView.getUint16(position + 30, true);
+    const commentLength = centralView.getUint16(position + 32, true);
+    const localOffset = centralView.getUint32(position + 42, true);
+    const name = decoder.decode(central.subarray(position + CENTRAL_HEADER_SIZE, position + CENTRAL_HEADER_SIZE + nameLength));
+    position += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue; // Directory entry
+
+    // The local header's name/extra lengths can differ from the central copy
+    const local = new DataView(await blob.slice(localOffset, localOffset + LOCAL_HEADER_SIZE).arrayBuffer());
+    if (local.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Corrupt ZIP entry: ${name}`);
+    }
+    const dataStart = localOffset + LOCAL_HEADER_SIZE + local.getUint16(26, true) + local.getUint16(28, true);
+    const data = blob.slice(dataStart, dataStart + compressedSize);
+
+    if (method === METHOD_STORE) {
+      entries.set(name, data);
+    } else if (method === METHOD_DEFLATE && typeof DecompressionStream !== 'undefined') {
+      const inflated = data.stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      entries.set(name, await new Response(inflated).blob());
+    } else {
+      throw new Error(`Unsupported compression in ZIP entry: ${name}`);
+    }
+  }
+
+  return entries;
+}
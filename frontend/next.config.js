@@ -1,6 +1,21 @@
+const fs = require('fs');
+const path = require('path');
+
+// Installed ffmpeg.wasm versions. public/ffmpeg holds copies under fixed
+// names, so the service worker keys its cache on these to drop stale ones.
+const ffmpegVersion = ['core', 'ffmpeg']
+  .map((name) => {
+    const manifest = path.join(__dirname, 'node_modules', '@ffmpeg', name, 'package.json');
+    return JSON.parse(fs.readFileSync(manifest, 'utf8')).version;
+  })
+  .join('-');
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  env: {
+    NEXT_PUBLIC_FFMPEG_VERSION: ffmpegVersion,
+  },
 };
 
 module.exports = nextConfig;
@@ -0,0 +1,88 @@
+// Service worker keeping the app shell available offline. The page is
+// fetched network-first so a running server always wins, with the cached
+// copy as the fallback. Build assets have content-hashed names, so they
+// are served cache-first. Uploads and shared links always need the server
+// and are left alone.
+
+// The ffmpeg files have fixed names, so the cache is keyed on their version
+// (passed in the registration URL); an upgrade starts over with a new cache
+const FFMPEG_VERSION = new URL(self.location.href).searchParams.get('ffmpeg') || 'unknown';
+const CACHE_NAME = `screen-recorder-v1-ffmpeg-${FFMPEG_VERSION}`;
+
+const SHELL_URLS = [
+  '/',
+  '/manifest.webmanifest',
+  '/icon-192.png',
+  '/icon-512.png',
+  '/icon-maskable-512.png',
+];
+
+// Cached the first time they're used; the ffmpeg core is too big to fetch
+// up front for a feature that may never be used
+const CACHE_FIRST_PREFIXES = ['/_next/static/', '/ffmpeg/'];
+
+// Cache the page along with the scripts and styles it references
+async function precacheShell() {
+  const cache = await caches.open(CACHE_NAME);
+  const page = await fetch('/', { cache: 'reload' });
+  if (!page.ok) throw new Error(`Failed to fetch the app shell (${page.status})`);
+  const html = await page.clone().text();
+  const assets = Array.from(html.matchAll(/\/_next\/static\/[^"'\s\\)]+/g), (match) => match[0]);
+  await cache.put('/', page);
+  await cache.addAll([...new Set([...SHELL_URLS.slice(1), ...assets])]);
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+// Drop caches left by earlier versions of this worker
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function networkFirst(request, fallbackUrl) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(CACHE_NAME);
+      await cache.put(fallbackUrl ?? request, response.clone());
+    }
+    return response;
+  } catch (err) {
+    const cached = await caches.match(fallbackUrl ?? request);
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+  if (url.pathname.startsWith('/api/') || url.pathname.startsWith('/r/')) return;
+
+  if (request.mode === 'navigate') {
+    // Everything outside /r/ is the recorder page
+    event.respondWith(networkFirst(request, '/'));
+  } else if (CACHE_FIRST_PREFIXES.some((prefix) => url.pathname.startsWith(prefix))) {
+    event.respondWith(cacheFirst(request));
+  } else {
+    event.respondWith(networkFirst(request));
+  }
+});
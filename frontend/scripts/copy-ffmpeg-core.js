@@ -0,0 +1,23 @@
+// Copy ffmpeg.wasm into public/ so MP4/GIF export is served with the app and
+// works offline. Runs after every install.
+//
+// The worker is served as-is rather than bundled: webpack rewrites its
+// dynamic import() of the core, which then fails at runtime.
+const fs = require('fs');
+const path = require('path');
+
+const modules = path.join(__dirname, '..', 'node_modules', '@ffmpeg');
+const target = path.join(__dirname, '..', 'public', 'ffmpeg');
+
+const files = [
+  ['core/dist/esm/ffmpeg-core.js', 'ffmpeg-core.js'],
+  ['core/dist/esm/ffmpeg-core.wasm', 'ffmpeg-core.wasm'],
+  ['ffmpeg/dist/esm/worker.js', 'worker.js'],
+  ['ffmpeg/dist/esm/const.js', 'const.js'],
+  ['ffmpeg/dist/esm/errors.js', 'errors.js'],
+];
+
+fs.mkdirSync(target, { recursive: true });
+for (const [from, to] of files) {
+  fs.copyFileSync(path.join(modules, from), path.join(target, to));
+}